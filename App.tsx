@@ -1,28 +1,86 @@
 
 import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { TweetCard } from './components/TweetCard';
-import { DEFAULT_TWEET_DATA, BACKGROUND_OPTIONS } from './constants';
-import { TweetData, Guideline } from './types';
-import { editImageWithGemini, generateImageWithGemini } from './services/geminiService';
-import { Wand2, Loader2, Upload, AlertCircle, Download, Undo, Redo, Type, Move, Edit3, Eye, Image as ImageIcon, X, Palette, Maximize, User } from 'lucide-react';
-import * as htmlToImage from 'html-to-image';
+import { SlideStrip } from './components/SlideStrip';
+import { ExportSettingsPanel } from './components/ExportSettingsPanel';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { TemplateGallery } from './components/TemplateGallery';
+import { AiTextAssistant } from './components/AiTextAssistant';
+import { CarouselGenerator } from './components/CarouselGenerator';
+import { TweetTextEditor } from './components/TweetTextEditor';
+import { AuthorDetailsPanel } from './components/AuthorDetailsPanel';
+import { EngagementPanel } from './components/EngagementPanel';
+import { LayoutPanel } from './components/LayoutPanel';
+import { TweetMediaPanel } from './components/TweetMediaPanel';
+import { ImageEditorDialog } from './components/ImageEditorDialog';
+import { BackgroundEditor } from './components/BackgroundEditor';
+import { TextColorPanel } from './components/TextColorPanel';
+import { BrandKitPanel } from './components/BrandKitPanel';
+import { TypographyPanel } from './components/TypographyPanel';
+import { LayersPanel } from './components/LayersPanel';
+import { loadBrandKits, saveBrandKits, loadActiveBrandKitId, saveActiveBrandKitId, applyBrandKit } from './services/brandKits';
+import { blobToDataUrl, normalizeImage } from './services/imageUtils';
+import { storeImage, resolveImageUrl, isAssetRef, toDataUrl, internAssets, embedAssets } from './services/assetStore';
+import { cloneBackground } from './services/cardBackground';
+import { registerBundledFonts, registerUploadedFont, mergeUploadedFonts } from './services/cardFonts';
+import { AiSettingsPanel } from './components/AiSettingsPanel';
+import { DEFAULT_TWEET_DATA, MAX_SLIDES, MAX_TWEET_IMAGES, MAX_ELEMENT_SCALE, IMAGE_MAX_DIMENSIONS, DEFAULT_EXPORT_SETTINGS, CANVAS_FORMATS, DEFAULT_CAROUSEL_STATE, DEFAULT_PROJECT_NAME, AUTOSAVE_DELAY_MS, getCanvasFormat } from './constants';
+import { TweetData, Guideline, ExportSettings, CarouselState, CanvasFormatId, ProjectMeta, GeneratedSlide, AiSettings, CardTarget, BrandKit, TextStyle, UploadedFont, CardTemplate } from './types';
+import { editImage, generateImage } from './services/aiService';
+import { loadAiSettings, saveAiSettings } from './services/aiSettings';
+import { isAiCancelled } from './services/aiErrors';
+import { exportSlide, exportThumbnail, downloadFile, exportCarouselAsZip, getFileExtension, isAbortError, ExportProgress } from './services/exportService';
+import { createProjectId, listProjects, loadProject, saveProject, renameProject, duplicateProject, deleteProject, listTemplates, saveTemplate, deleteTemplate, StorageBlockedError } from './services/projectStorage';
+import { getTemplateSlides } from './services/templates';
+import { isLayerTarget, findLayer, getTargetPosition, getTargetScale, setTargetPosition, setTargetScale, updateLayer, cloneLayer } from './services/cardLayers';
+import { estimateTextCapacity, estimateTextOverflow } from './services/textLayout';
+import { TWEET_CHAR_LIMITS } from './services/tweetText';
+import { serializeProjectFile, parseProjectFile, getProjectFileName, ProjectFileError } from './services/projectFile';
+import { Wand2, Loader2, Upload, AlertCircle, Download, Undo, Redo, Type, Move, Edit3, Eye, Image as ImageIcon, X, Palette, Maximize, User, SlidersHorizontal, RectangleHorizontal, FolderOpen, GalleryHorizontal, Cpu, AlertTriangle, BarChart2, MessagesSquare, Crop, Contrast, Briefcase, LayoutTemplate, Layers } from 'lucide-react';
+
+// Pointer drags within this many card pixels of a guide snap to it
+const SNAP_THRESHOLD = 15;
+
+// Rotation snaps to multiples of this many degrees when within ROTATION_SNAP_THRESHOLD of one
+const ROTATION_SNAP_STEP = 15;
+const ROTATION_SNAP_THRESHOLD = 4;
 
 const App: React.FC = () => {
-  type CarouselState = {
-    slides: TweetData[];
-    activeSlideIndex: number;
-  };
-
   // State
-  const [carouselState, setCarouselState] = useState<CarouselState>({
-    slides: [DEFAULT_TWEET_DATA],
-    activeSlideIndex: 0,
-  });
+  const [carouselState, setCarouselState] = useState<CarouselState>(DEFAULT_CAROUSEL_STATE);
   const [prompt, setPrompt] = useState('');
   const [imageGenerationPrompt, setImageGenerationPrompt] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
+  const avatarEditAbortRef = useRef<AbortController | null>(null);
+  const imageGenerationAbortRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
+
+  // Export State
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+
+  // AI Provider Settings (persisted in localStorage, read on every AI call)
+  const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings);
+
+  // Brand Kits (persisted in localStorage; the active kit seeds new projects)
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  const [activeBrandKitId, setActiveBrandKitId] = useState<string | null>(loadActiveBrandKitId);
+  
+  // Project Persistence State (null until the last project has been restored)
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectName, setProjectName] = useState(DEFAULT_PROJECT_NAME);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [projects, setProjects] = useState<ProjectMeta[]>([]);
+  const [isLoadingProjects, setIsLoadingProjects] = useState(false);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+
+  // Template Gallery State (saved templates are loaded when the gallery opens)
+  const [isTemplateGalleryOpen, setIsTemplateGalleryOpen] = useState(false);
+  const [savedTemplates, setSavedTemplates] = useState<CardTemplate[]>([]);
+  const [isLoadingTemplates, setIsLoadingTemplates] = useState(false);
+  const [templateError, setTemplateError] = useState<string | null>(null);
   
   // Mobile Tabs State
   const [activeTab, setActiveTab] = useState<'editor' | 'preview'>('editor');
@@ -30,6 +88,15 @@ const App: React.FC = () => {
   // Media Tab State (Upload vs Generate)
   const [mediaMode, setMediaMode] = useState<'upload' | 'generate'>('upload');
 
+  // Image open in the crop dialog: the avatar or an index into tweetImages
+  const [imageEditTarget, setImageEditTarget] = useState<{ src: string; target: 'avatar' | number } | null>(null);
+
+  // Character limit for the counter (280, or 25,000 for Premium accounts)
+  const [charLimit, setCharLimit] = useState<number>(TWEET_CHAR_LIMITS.standard);
+
+  // Whether the previewed slide's text runs past the bottom of the card
+  const [isContentClipped, setIsContentClipped] = useState(false);
+
   // History State for Undo/Redo
   const [history, setHistory] = useState<CarouselState[]>([]);
   const [redoStack, setRedoStack] = useState<CarouselState[]>([]);
@@ -38,10 +105,13 @@ const App: React.FC = () => {
   const [scale, setScale] = useState(0.5);
 
   // Dragging & Snapping State
-  const [draggingItem, setDraggingItem] = useState<'header' | 'content' | 'tweetImage' | null>(null);
-  const [resizingItem, setResizingItem] = useState<'header' | 'content' | 'tweetImage' | null>(null);
-  const [activeHandle, setActiveHandle] = useState<string | null>(null); // 'nw', 'ne', 'se', 'sw'
+  const [draggingItem, setDraggingItem] = useState<CardTarget | null>(null);
+  const [resizingItem, setResizingItem] = useState<CardTarget | null>(null);
+  const [activeHandle, setActiveHandle] = useState<string | null>(null); // 'nw', 'ne', 'se', 'sw', or 'rotate' for layers
   const [guidelines, setGuidelines] = useState<Guideline[]>([]);
+
+  // Layer picked on the card or in the layers panel
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
   
   // Inline Editing State
   const [editingField, setEditingField] = useState<'displayName' | 'handle' | 'content' | null>(null);
@@ -51,26 +121,33 @@ const App: React.FC = () => {
     y: number, 
     initialX: number, 
     initialY: number,
-    width: number,
-    height: number
+    width: number, // Card elements: on-screen size; layers: unscaled size
+    height: number,
+    layerScale: number | null // Set when dragging a layer
   } | null>(null);
 
   const resizeStartRef = useRef<{
     startX: number;
     startY: number;
     initialScale: number;
+    centerX: number; // On-screen center of the target, the pivot for rotation
+    centerY: number;
   } | null>(null);
 
   // Refs
   const fileInputRef = useRef<HTMLInputElement>(null);
   const tweetImageInputRef = useRef<HTMLInputElement>(null);
-  const previewRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
   // Used to track value before editing started (for text inputs)
   const preEditStateRef = useRef<TweetData | null>(null);
 
+  // Last state known to be on disk, and the save waiting on the autosave debounce
+  const savedSnapshotRef = useRef<{ state: CarouselState, name: string } | null>(null);
+  const pendingSaveRef = useRef<((withThumbnail?: boolean) => Promise<void>) | null>(null);
+
   const tweetData = carouselState.slides[carouselState.activeSlideIndex];
+  const canvas = getCanvasFormat(carouselState.canvasFormat);
 
   const updateTweetData = useCallback((updater: (prev: TweetData) => TweetData) => {
     setCarouselState(prev => {
@@ -80,20 +157,31 @@ const App: React.FC = () => {
     });
   }, []);
 
+  // For results that arrive after other edits, e.g. AI requests: the slide they were started on
+  const updateSlideAt = useCallback((index: number, updater: (prev: TweetData) => TweetData) => {
+    setCarouselState(prev => ({ ...prev, slides: prev.slides.map((slide, i) => i === index ? updater(slide) : slide) }));
+  }, []);
+
+  // Latest state, for history saved when a slow request finishes
+  const carouselStateRef = useRef(carouselState);
+  carouselStateRef.current = carouselState;
+
   // --- Font Loading ---
   useEffect(() => {
-    const loadFonts = async () => {
-      try {
-        const response = await fetch('https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap');
-        const css = await response.text();
-        const style = document.createElement('style');
-        style.innerHTML = css;
-        document.head.appendChild(style);
-      } catch (e) {
-        console.error("Failed to load fonts", e);
-      }
-    };
-    loadFonts();
+    registerBundledFonts();
+  }, []);
+
+  // Uploaded fonts arrive with projects, undo steps and brand kits; registering is a no-op once loaded
+  useEffect(() => {
+    for (const font of carouselState.fonts) {
+      registerUploadedFont(font.src).catch(e => console.error("Failed to load font", font.name, e));
+    }
+  }, [carouselState.fonts]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadBrandKits().then(kits => { if (!cancelled) setBrandKits(kits); });
+    return () => { cancelled = true; };
   }, []);
 
   // --- Dynamic Scaling ---
@@ -105,17 +193,15 @@ const App: React.FC = () => {
       // If container is hidden (e.g. mobile tab switch), these might be 0
       if (containerWidth === 0 || containerHeight === 0) return;
 
-      const cardWidth = 1080;
-      const cardHeight = 1440;
       const padding = 32; // Reduced padding for mobile
 
-      const scaleX = (containerWidth - padding) / cardWidth;
-      const scaleY = (containerHeight - padding) / cardHeight;
+      const scaleX = (containerWidth - padding) / canvas.width;
+      const scaleY = (containerHeight - padding) / canvas.height;
 
       const newScale = Math.min(scaleX, scaleY);
       setScale(newScale);
     }
-  }, []);
+  }, [canvas.width, canvas.height]);
 
   useEffect(() => {
     calculateScale();
@@ -142,11 +228,22 @@ const App: React.FC = () => {
   const cloneCarouselState = useCallback((state: CarouselState): CarouselState => ({
     slides: state.slides.map(slide => ({
       ...slide,
+      background: cloneBackground(slide.background),
       headerPosition: { ...slide.headerPosition },
       contentPosition: { ...slide.contentPosition },
+      tweetImages: slide.tweetImages.map(media => ({ ...media, focalPoint: { ...media.focalPoint } })),
       tweetImagePosition: { ...slide.tweetImagePosition },
+      footerPosition: { ...slide.footerPosition },
+      engagement: { ...slide.engagement },
+      quotedTweet: { ...slide.quotedTweet },
+      threadReplies: slide.threadReplies.map(reply => ({ ...reply })),
+      headerFont: { ...slide.headerFont },
+      bodyFont: { ...slide.bodyFont },
+      layers: slide.layers.map(cloneLayer),
     })),
     activeSlideIndex: state.activeSlideIndex,
+    canvasFormat: state.canvasFormat,
+    fonts: state.fonts.map(font => ({ ...font })),
   }), []);
 
   const saveToHistory = useCallback((prevState: CarouselState) => {
@@ -189,11 +286,289 @@ const App: React.FC = () => {
           handleUndo();
         }
       }
+      // Delete removes the selected layer, unless the key is meant for a field
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedLayerId && !editingField) {
+        const target = e.target as HTMLElement;
+        if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+        e.preventDefault();
+        saveToHistory(carouselState);
+        updateTweetData(prev => ({ ...prev, layers: prev.layers.filter(layer => layer.id !== selectedLayerId) }));
+        setSelectedLayerId(null);
+      }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleUndo, handleRedo, editingField]);
+  }, [handleUndo, handleRedo, editingField, selectedLayerId, carouselState, saveToHistory, updateTweetData]);
+
+
+  // --- Project Persistence ---
+
+  const applyProject = useCallback((id: string, name: string, state: CarouselState) => {
+    savedSnapshotRef.current = { state, name };
+    pendingSaveRef.current = null;
+    setProjectId(id);
+    setProjectName(name);
+    setCarouselState(state);
+    setHistory([]);
+    setRedoStack([]);
+    setEditingField(null);
+  }, []);
+
+  // Without a thumbnail the write starts right away and the library keeps the previous one
+  const persistProject = useCallback(async (id: string, name: string, state: CarouselState, withThumbnail = true) => {
+    try {
+      const thumbnail = withThumbnail
+        ? await exportThumbnail(state.slides[0], getCanvasFormat(state.canvasFormat)).catch(() => null)
+        : null;
+      await saveProject(id, name, state, thumbnail);
+      savedSnapshotRef.current = { state, name };
+    } catch (err) {
+      console.error('Failed to save project', err);
+      if (err instanceof StorageBlockedError) setError(err.message);
+    }
+  }, []);
+
+  // Restore the most recently edited project on startup
+  useEffect(() => {
+    const restoreLastProject = async () => {
+      try {
+        const [latest] = await listProjects();
+        const project = latest ? await loadProject(latest.id) : null;
+        if (project) {
+          applyProject(project.meta.id, project.meta.name, project.state);
+          return;
+        }
+      } catch (err) {
+        console.error('Failed to restore project', err);
+        if (err instanceof StorageBlockedError) setError(err.message);
+      }
+      applyProject(createProjectId(), DEFAULT_PROJECT_NAME, DEFAULT_CAROUSEL_STATE);
+    };
+    restoreLastProject();
+  }, [applyProject]);
+
+  // Debounced autosave
+  useEffect(() => {
+    if (!projectId) return;
+    const saved = savedSnapshotRef.current;
+    if (saved && saved.state === carouselState && saved.name === projectName) return;
+
+    const save = async (withThumbnail = true) => {
+      // Already flushed, or superseded by switching projects
+      if (pendingSaveRef.current !== save) return;
+      pendingSaveRef.current = null;
+      await persistProject(projectId, projectName, carouselState, withThumbnail);
+    };
+    pendingSaveRef.current = save;
+    const timer = setTimeout(save, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [projectId, projectName, carouselState, persistProject]);
+
+  const flushPendingSave = async () => {
+    await pendingSaveRef.current?.();
+  };
+
+  // Save the last edits right away when the tab is hidden or closed, instead of waiting on the debounce.
+  // The thumbnail render would hold up the write past unload, so it waits for the next save.
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') pendingSaveRef.current?.(false);
+    };
+    const handlePageHide = () => {
+      pendingSaveRef.current?.(false);
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', handlePageHide);
+    };
+  }, []);
+
+  const refreshProjects = async () => {
+    setIsLoadingProjects(true);
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      console.error('Failed to list projects', err);
+      setError(err instanceof StorageBlockedError ? err.message : "Não foi possível carregar seus projetos.");
+    } finally {
+      setIsLoadingProjects(false);
+    }
+  };
+
+  const handleOpenLibrary = async () => {
+    setLibraryError(null);
+    setIsLibraryOpen(true);
+    await flushPendingSave();
+    await refreshProjects();
+  };
+
+  const handleOpenProject = async (id: string) => {
+    if (id !== projectId) {
+      try {
+        const project = await loadProject(id);
+        if (!project) throw new Error('Project not found');
+        applyProject(project.meta.id, project.meta.name, project.state);
+      } catch (err) {
+        console.error('Failed to open project', err);
+        setError("Não foi possível abrir o projeto.");
+      }
+    }
+    setIsLibraryOpen(false);
+  };
+
+  // New projects start from the active brand kit, if any
+  const getNewProjectState = (): CarouselState => {
+    const kit = brandKits.find(item => item.id === activeBrandKitId);
+    return kit
+      ? { ...DEFAULT_CAROUSEL_STATE, slides: [applyBrandKit(DEFAULT_TWEET_DATA, kit)], fonts: kit.fonts.map(font => ({ ...font })) }
+      : DEFAULT_CAROUSEL_STATE;
+  };
+
+  const handleCreateProject = () => {
+    applyProject(createProjectId(), DEFAULT_PROJECT_NAME, getNewProjectState());
+    setIsLibraryOpen(false);
+  };
+
+  const handleRenameProject = async (id: string, name: string) => {
+    if (id === projectId) {
+      savedSnapshotRef.current = savedSnapshotRef.current && { ...savedSnapshotRef.current, name };
+      setProjectName(name);
+    }
+    await renameProject(id, name).catch(err => console.error('Failed to rename project', err));
+    await refreshProjects();
+  };
+
+  const handleDuplicateProject = async (id: string) => {
+    const source = projects.find(project => project.id === id);
+    await duplicateProject(id, `${source?.name ?? DEFAULT_PROJECT_NAME} (cópia)`).catch(err => console.error('Failed to duplicate project', err));
+    await refreshProjects();
+  };
 
+  const handleDeleteProject = async (id: string) => {
+    await deleteProject(id).catch(err => console.error('Failed to delete project', err));
+    if (id === projectId) {
+      applyProject(createProjectId(), DEFAULT_PROJECT_NAME, getNewProjectState());
+    }
+    await refreshProjects();
+  };
+
+  const handleExportProjectFile = async (id: string) => {
+    setLibraryError(null);
+    try {
+      const project = id === projectId
+        ? { name: projectName, state: carouselState }
+        : await loadProject(id).then(loaded => loaded && { name: loaded.meta.name, state: loaded.state });
+      if (!project) throw new Error('Project not found');
+
+      const blob = new Blob([serializeProjectFile(project.name, await embedAssets(project.state))], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      downloadFile(url, getProjectFileName(project.name));
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      console.error('Failed to export project file', err);
+      setLibraryError("Não foi possível exportar o projeto.");
+    }
+  };
+
+  const handleImportProjectFile = async (file: File) => {
+    setLibraryError(null);
+    try {
+      const { name, state: parsedState } = parseProjectFile(await file.text());
+      const state = await internAssets(parsedState);
+      const id = createProjectId();
+      applyProject(id, name, state);
+      await persistProject(id, name, state);
+      setIsLibraryOpen(false);
+    } catch (err) {
+      if (err instanceof ProjectFileError) {
+        setLibraryError(`Arquivo inválido: ${err.message}`);
+      } else {
+        console.error('Failed to import project file', err);
+        setLibraryError("Não foi possível importar o arquivo.");
+      }
+    }
+  };
+
+  // --- Templates ---
+
+  const handleOpenTemplateGallery = async () => {
+    setTemplateError(null);
+    setIsTemplateGalleryOpen(true);
+    setIsLoadingTemplates(true);
+    try {
+      setSavedTemplates(await listTemplates());
+    } catch (err) {
+      console.error('Failed to list templates', err);
+      setTemplateError(err instanceof StorageBlockedError ? err.message : "Não foi possível carregar seus modelos.");
+    } finally {
+      setIsLoadingTemplates(false);
+    }
+  };
+
+  // Card layouts replace the active slide; carousels replace every slide and may set the format
+  const handleApplyTemplate = (template: CardTemplate, contentSlides: number) => {
+    setEditingField(null);
+    saveToHistory(carouselState);
+    setCarouselState(prev => {
+      const slides = getTemplateSlides(template, prev.slides[prev.activeSlideIndex], contentSlides);
+      const fonts = mergeUploadedFonts(prev.fonts, template.fonts);
+      if (template.kind === 'card') {
+        return { ...prev, slides: prev.slides.map((slide, index) => index === prev.activeSlideIndex ? slides[0] : slide), fonts };
+      }
+      return { slides, activeSlideIndex: 0, canvasFormat: template.canvasFormat ?? prev.canvasFormat, fonts };
+    });
+    setIsTemplateGalleryOpen(false);
+  };
+
+  const handleSaveTemplate = async (name: string) => {
+    setTemplateError(null);
+    try {
+      const template = await saveTemplate(name, carouselState);
+      setSavedTemplates(prev => [template, ...prev]);
+    } catch (err) {
+      console.error('Failed to save template', err);
+      setTemplateError("Não foi possível salvar o modelo.");
+    }
+  };
+
+  const handleDeleteTemplate = async (id: string) => {
+    try {
+      await deleteTemplate(id);
+      setSavedTemplates(prev => prev.filter(template => template.id !== id));
+    } catch (err) {
+      console.error('Failed to delete template', err);
+      setTemplateError("Não foi possível excluir o modelo.");
+    }
+  };
+
+  // --- Brand Kits ---
+
+  const handleBrandKitsChange = async (kits: BrandKit[]) => {
+    try {
+      await saveBrandKits(kits);
+      setBrandKits(kits);
+    } catch (err) {
+      console.error('Failed to save brand kits', err);
+      setError("Não foi possível salvar os kits. O armazenamento do navegador está cheio.");
+    }
+  };
+
+  const handleActiveBrandKitChange = (id: string | null) => {
+    setActiveBrandKitId(id);
+    saveActiveBrandKitId(id);
+  };
+
+  const handleApplyBrandKit = (kit: BrandKit, scope: 'slide' | 'carousel') => {
+    setEditingField(null);
+    saveToHistory(carouselState);
+    setCarouselState(prev => ({
+      ...prev,
+      slides: prev.slides.map((slide, index) => scope === 'carousel' || index === prev.activeSlideIndex ? applyBrandKit(slide, kit) : slide),
+      fonts: mergeUploadedFonts(prev.fonts, kit.fonts),
+    }));
+  };
 
   // --- Input Handlers ---
 
@@ -212,52 +587,128 @@ const App: React.FC = () => {
     preEditStateRef.current = null;
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // New avatars go through the crop dialog before they replace the current one.
+  // The dialog gets a media-sized copy: camera originals can exceed the browser's canvas limit,
+  // and there is still room to crop a small region into a sharp avatar.
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+    try {
+      setImageEditTarget({ src: await blobToDataUrl(await normalizeImage(file, IMAGE_MAX_DIMENSIONS.media)), target: 'avatar' });
+    } catch (err) {
+      console.error('Failed to open image', err);
+      setError("Não foi possível processar a imagem.");
+    }
+  };
+
+  const handleImageEditApply = async (dataUrl: string) => {
+    if (!imageEditTarget) return;
+    const { target } = imageEditTarget;
+    setImageEditTarget(null);
+    try {
+      const src = await storeImage(dataUrl, target === 'avatar' ? IMAGE_MAX_DIMENSIONS.avatar : IMAGE_MAX_DIMENSIONS.media);
       saveToHistory(carouselState);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        updateTweetData(prev => ({ ...prev, avatarUrl: reader.result as string }));
-      };
-      reader.readAsDataURL(file);
+      updateTweetData(prev => target === 'avatar'
+        ? { ...prev, avatarUrl: src }
+        : {
+            ...prev,
+            // The old focal point no longer matches the cropped image
+            tweetImages: prev.tweetImages.map((media, index) => index === target ? { ...media, src, focalPoint: { x: 0.5, y: 0.5 } } : media),
+          });
+    } catch (err) {
+      console.error('Failed to store edited image', err);
+      setError("Não foi possível processar a imagem.");
     }
-    if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  const handleTweetImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
+  // Discrete options (toggles, pickers) save history on every change
+  const handleSlideOptionChange = (patch: Partial<TweetData>) => {
+    saveToHistory(carouselState);
+    updateTweetData(prev => ({ ...prev, ...patch }));
+  };
+
+  // Typed fields save history on blur, like the other inputs
+  const handleSlideFieldChange = (patch: Partial<TweetData>) => {
+    updateTweetData(prev => ({ ...prev, ...patch }));
+  };
+
+  // Uploaded fonts join the project and go straight onto the text they were picked for
+  const handleFontAdd = (font: UploadedFont, target: 'headerFont' | 'bodyFont') => {
+    saveToHistory(carouselState);
+    setCarouselState(prev => ({
+      ...prev,
+      fonts: mergeUploadedFonts(prev.fonts, [font]),
+      slides: prev.slides.map((slide, index) => index === prev.activeSlideIndex ? { ...slide, [target]: { ...slide[target], font: font.src } } : slide),
+    }));
+  };
+
+  // Text set in a removed font falls back to the default font, keeping its weight and spacing
+  const handleFontRemove = (src: string) => {
+    const resetFont = (style: TextStyle, fallback: TextStyle): TextStyle => style.font === src ? { ...style, font: fallback.font } : style;
+    saveToHistory(carouselState);
+    setCarouselState(prev => ({
+      ...prev,
+      fonts: prev.fonts.filter(font => font.src !== src),
+      slides: prev.slides.map(slide => ({
+        ...slide,
+        headerFont: resetFont(slide.headerFont, DEFAULT_TWEET_DATA.headerFont),
+        bodyFont: resetFont(slide.bodyFont, DEFAULT_TWEET_DATA.bodyFont),
+      })),
+    }));
+  };
+
+  const handleBadgeIconUpload = async (file: File) => {
+    try {
+      const badgeIconUrl = await storeImage(file, IMAGE_MAX_DIMENSIONS.badge);
       saveToHistory(carouselState);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        updateTweetData(prev => ({ 
-            ...prev, 
-            tweetImage: reader.result as string,
-            tweetImagePosition: { x: 0, y: 0 },
-            tweetImageScale: 1
-        }));
-      };
-      reader.readAsDataURL(file);
+      updateTweetData(prev => ({ ...prev, badge: 'custom', badgeIconUrl }));
+    } catch (err) {
+      console.error('Failed to store badge icon', err);
+      setError("Não foi possível processar a imagem.");
     }
+  };
+
+  // Appends images to the slide's media grid; the grid is reset to its default spot when it starts empty
+  const appendTweetImages = (sources: string[], slideIndex = carouselState.activeSlideIndex) => {
+    updateSlideAt(slideIndex, prev => {
+      const added = sources.map(src => ({ src, alt: '', focalPoint: { x: 0.5, y: 0.5 } }));
+      const tweetImages = [...prev.tweetImages, ...added].slice(0, MAX_TWEET_IMAGES);
+      return prev.tweetImages.length > 0
+        ? { ...prev, tweetImages }
+        : { ...prev, tweetImages, tweetImagePosition: { x: 0, y: 0 }, tweetImageScale: 1 };
+    });
+  };
+
+  const handleTweetImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).slice(0, MAX_TWEET_IMAGES - tweetData.tweetImages.length);
     if (tweetImageInputRef.current) tweetImageInputRef.current.value = '';
+    if (files.length === 0) return;
+    try {
+      const sources = await Promise.all(files.map(file => storeImage(file, IMAGE_MAX_DIMENSIONS.media)));
+      saveToHistory(carouselState);
+      appendTweetImages(sources);
+    } catch (err) {
+      console.error('Failed to store tweet images', err);
+      setError("Não foi possível processar a imagem.");
+    }
   }
 
   // --- Interaction Logic: Dragging & Resizing ---
 
   // 1. Dragging
-  const initiateDrag = (clientX: number, clientY: number, element: 'header' | 'content' | 'tweetImage', target: HTMLElement) => {
+  const initiateDrag = (clientX: number, clientY: number, element: CardTarget, target: HTMLElement) => {
     if (editingField) return; // Disable dragging while editing text
     setDraggingItem(element);
+    setSelectedLayerId(isLayerTarget(element) ? findLayer(tweetData, element)?.id ?? null : null);
     
+    // Layers snap by their center, which their own scale and rotation don't move
     const rect = target.getBoundingClientRect();
-    const elementWidth = rect.width / scale;
-    const elementHeight = rect.height / scale;
+    const isLayer = isLayerTarget(element);
+    const elementWidth = isLayer ? target.offsetWidth : rect.width / scale;
+    const elementHeight = isLayer ? target.offsetHeight : rect.height / scale;
 
-    let currentPos;
-    if (element === 'header') currentPos = tweetData.headerPosition;
-    else if (element === 'content') currentPos = tweetData.contentPosition;
-    else currentPos = tweetData.tweetImagePosition;
+    const currentPos = getTargetPosition(tweetData, element);
 
     dragStartRef.current = {
       x: clientX,
@@ -265,44 +716,46 @@ const App: React.FC = () => {
       initialX: currentPos.x,
       initialY: currentPos.y,
       width: elementWidth,
-      height: elementHeight
+      height: elementHeight,
+      layerScale: isLayer ? getTargetScale(tweetData, element) : null
     };
     
     saveToHistory(carouselState);
   };
 
-  const handleDragStart = (e: React.MouseEvent, element: 'header' | 'content' | 'tweetImage') => {
+  const handleDragStart = (e: React.MouseEvent, element: CardTarget) => {
     if (e.button !== 0) return; // Only Left Click
     e.preventDefault();
     e.stopPropagation();
     initiateDrag(e.clientX, e.clientY, element, e.currentTarget as HTMLElement);
   };
 
-  const handleTouchStart = (e: React.TouchEvent, element: 'header' | 'content' | 'tweetImage') => {
+  const handleTouchStart = (e: React.TouchEvent, element: CardTarget) => {
     e.stopPropagation();
     const touch = e.touches[0];
     initiateDrag(touch.clientX, touch.clientY, element, e.currentTarget as HTMLElement);
   };
 
   // 2. Resizing (Visual)
-  const initiateResize = (clientX: number, clientY: number, element: 'header' | 'content' | 'tweetImage', handle: string) => {
+  const initiateResize = (clientX: number, clientY: number, element: CardTarget, handle: string, target: HTMLElement) => {
     saveToHistory(carouselState);
     setResizingItem(element);
     setActiveHandle(handle);
+    if (isLayerTarget(element)) setSelectedLayerId(findLayer(tweetData, element)?.id ?? null);
     
-    let currentScale = 1;
-    if (element === 'header') currentScale = tweetData.headerScale;
-    else if (element === 'content') currentScale = tweetData.contentScale;
-    else currentScale = tweetData.tweetImageScale;
+    const currentScale = getTargetScale(tweetData, element);
+    const rect = target.getBoundingClientRect();
 
     resizeStartRef.current = {
       startX: clientX,
       startY: clientY,
-      initialScale: currentScale
+      initialScale: currentScale,
+      centerX: rect.left + rect.width / 2,
+      centerY: rect.top + rect.height / 2
     };
   };
 
-  const handleResizeStart = (e: React.MouseEvent | React.TouchEvent, element: 'header' | 'content' | 'tweetImage', handle: string) => {
+  const handleResizeStart = (e: React.MouseEvent | React.TouchEvent, element: CardTarget, handle: string) => {
      let clientX, clientY;
      if ('touches' in e) {
        clientX = e.touches[0].clientX;
@@ -312,13 +765,28 @@ const App: React.FC = () => {
        clientX = (e as React.MouseEvent).clientX;
        clientY = (e as React.MouseEvent).clientY;
      }
-     initiateResize(clientX, clientY, element, handle);
+     // Handles sit inside the element they resize
+     initiateResize(clientX, clientY, element, handle, (e.currentTarget as HTMLElement).parentElement!);
   };
 
 
   // 3. Movement Handler (Centralized)
   const processMove = (clientX: number, clientY: number) => {
     
+    // --- ROTATION LOGIC (layers only) ---
+    if (resizingItem && isLayerTarget(resizingItem) && resizeStartRef.current && activeHandle === 'rotate') {
+        const { centerX, centerY } = resizeStartRef.current;
+        // The handle sits above the center, so pointing straight up is 0°
+        let rotation = Math.atan2(clientY - centerY, clientX - centerX) * 180 / Math.PI + 90;
+        if (rotation > 180) rotation -= 360;
+        const snapped = Math.round(rotation / ROTATION_SNAP_STEP) * ROTATION_SNAP_STEP;
+        if (Math.abs(rotation - snapped) < ROTATION_SNAP_THRESHOLD) rotation = snapped;
+
+        const layer = findLayer(tweetData, resizingItem);
+        if (layer) updateTweetData(prev => updateLayer(prev, layer.id, { rotation: Math.round(rotation) }));
+        return;
+    }
+
     // --- RESIZING LOGIC ---
     if (resizingItem && resizeStartRef.current && activeHandle) {
         const { startX, startY, initialScale } = resizeStartRef.current;
@@ -347,15 +815,9 @@ const App: React.FC = () => {
         const sensitivity = 0.002; 
         
         let newScale = initialScale + (growthDelta * sensitivity);
-        newScale = Math.max(0.2, Math.min(newScale, 3.0)); // Clamp
+        newScale = Math.max(0.2, Math.min(newScale, MAX_ELEMENT_SCALE)); // Clamp
 
-        if (resizingItem === 'header') {
-            updateTweetData(prev => ({ ...prev, headerScale: newScale }));
-        } else if (resizingItem === 'content') {
-            updateTweetData(prev => ({ ...prev, contentScale: newScale }));
-        } else {
-            updateTweetData(prev => ({ ...prev, tweetImageScale: newScale }));
-        }
+        updateTweetData(prev => setTargetScale(prev, resizingItem, newScale));
         return;
     }
 
@@ -369,11 +831,36 @@ const App: React.FC = () => {
     let newY = dragStartRef.current.initialY + deltaY;
 
     // Snapping Logic
-    const SNAP_THRESHOLD = 15;
-    const CARD_WIDTH = 1080;
-    const CARD_PADDING_LEFT = 100;
+    const CARD_WIDTH = canvas.width;
+    const CARD_PADDING_LEFT = canvas.paddingX;
     const activeGuidelines: Guideline[] = [];
     const visualWidth = dragStartRef.current.width; 
+    const { layerScale } = dragStartRef.current;
+
+    if (layerScale !== null) {
+      // Layers are placed from the card's corner: snap the scaled left edge to the padding and the center to the card's center lines
+      const { width, height } = dragStartRef.current;
+      const edgeInset = width * (1 - layerScale) / 2;
+      const cardCenterX = CARD_WIDTH / 2;
+      const cardCenterY = canvas.height / 2;
+
+      if (Math.abs(newX + edgeInset - CARD_PADDING_LEFT) < SNAP_THRESHOLD) {
+        newX = CARD_PADDING_LEFT - edgeInset;
+        activeGuidelines.push({ type: 'vertical', position: CARD_PADDING_LEFT });
+      }
+      if (Math.abs(newX + width / 2 - cardCenterX) < SNAP_THRESHOLD) {
+        newX = cardCenterX - width / 2;
+        activeGuidelines.push({ type: 'vertical', position: cardCenterX });
+      }
+      if (Math.abs(newY + height / 2 - cardCenterY) < SNAP_THRESHOLD) {
+        newY = cardCenterY - height / 2;
+        activeGuidelines.push({ type: 'horizontal', position: cardCenterY });
+      }
+
+      setGuidelines(activeGuidelines);
+      updateTweetData(prev => setTargetPosition(prev, draggingItem, { x: newX, y: newY }));
+      return;
+    }
 
     if (Math.abs(newX) < SNAP_THRESHOLD) {
       newX = 0;
@@ -395,13 +882,7 @@ const App: React.FC = () => {
 
     setGuidelines(activeGuidelines);
 
-    if (draggingItem === 'header') {
-      updateTweetData(prev => ({ ...prev, headerPosition: { x: newX, y: newY } }));
-    } else if (draggingItem === 'content') {
-      updateTweetData(prev => ({ ...prev, contentPosition: { x: newX, y: newY } }));
-    } else {
-      updateTweetData(prev => ({ ...prev, tweetImagePosition: { x: newX, y: newY } }));
-    }
+    updateTweetData(prev => setTargetPosition(prev, draggingItem, { x: newX, y: newY }));
   };
 
   const handleGlobalMove = (e: React.MouseEvent) => {
@@ -440,32 +921,49 @@ const App: React.FC = () => {
       setEditingField(null);
   };
 
-  // --- Background Logic ---
-  const handleBackgroundChange = (bgStyle: string) => {
+  // --- Canvas Format ---
+  const handleCanvasFormatChange = (formatId: CanvasFormatId) => {
+    if (formatId === carouselState.canvasFormat) return;
     saveToHistory(carouselState);
-    updateTweetData(prev => ({ ...prev, background: bgStyle }));
+    setCarouselState(prev => ({ ...prev, canvasFormat: formatId }));
   };
-  
-  // --- Gemini AI ---
-  const handleGeminiEdit = async () => {
+
+  // --- Text Fitting ---
+  const handleAutoFitChange = (autoFitText: boolean) => {
+    saveToHistory(carouselState);
+    updateTweetData(prev => ({ ...prev, autoFitText }));
+  };
+
+  // --- AI ---
+  const handleAiSettingsChange = (settings: AiSettings) => {
+    setAiSettings(settings);
+    saveAiSettings(settings);
+  };
+
+  const handleAiEdit = async () => {
     if (!prompt.trim()) {
       setError("Por favor, digite um comando para a IA.");
       return;
     }
-    if (!tweetData.avatarUrl.startsWith('data:')) {
+    if (!isAssetRef(tweetData.avatarUrl) && !tweetData.avatarUrl.startsWith('data:')) {
          setError("Por favor, faça upload de uma imagem antes de editar.");
          return;
     }
+    const slideIndex = carouselState.activeSlideIndex;
+    const controller = new AbortController();
+    avatarEditAbortRef.current = controller;
     setIsProcessing(true);
     setError(null);
     try {
-      saveToHistory(carouselState);
-      const newAvatarBase64 = await editImageWithGemini(tweetData.avatarUrl, prompt);
-      updateTweetData(prev => ({ ...prev, avatarUrl: newAvatarBase64 }));
+      const newAvatarBase64 = await editImage(await toDataUrl(tweetData.avatarUrl), prompt, controller.signal);
+      const avatarUrl = await storeImage(newAvatarBase64, IMAGE_MAX_DIMENSIONS.avatar);
+      saveToHistory(carouselStateRef.current);
+      updateSlideAt(slideIndex, prev => ({ ...prev, avatarUrl }));
       setPrompt(''); 
     } catch (err: any) {
-      setError(err.message || "Falha ao editar a imagem. Tente um comando diferente.");
+      if (!isAiCancelled(err)) setError(err.message || "Falha ao editar a imagem. Tente um comando diferente.");
     } finally {
+      avatarEditAbortRef.current = null;
       setIsProcessing(false);
     }
   };
@@ -475,73 +973,180 @@ const App: React.FC = () => {
           setError("Digite um comando para gerar a imagem.");
           return;
       }
+      const slideIndex = carouselState.activeSlideIndex;
+      const controller = new AbortController();
+      imageGenerationAbortRef.current = controller;
       setIsGeneratingImage(true);
       setError(null);
       try {
-          saveToHistory(carouselState);
-          const newImageBase64 = await generateImageWithGemini(imageGenerationPrompt);
-          updateTweetData(prev => ({
-              ...prev,
-              tweetImage: newImageBase64,
-              tweetImagePosition: { x: 0, y: 0 },
-              tweetImageScale: 1
-          }));
+          const newImageBase64 = await generateImage(imageGenerationPrompt, controller.signal);
+          const src = await storeImage(newImageBase64, IMAGE_MAX_DIMENSIONS.media);
+          saveToHistory(carouselStateRef.current);
+          appendTweetImages([src], slideIndex);
           setImageGenerationPrompt('');
       } catch (err: any) {
-          setError(err.message || "Falha ao gerar imagem.");
+          if (!isAiCancelled(err)) setError(err.message || "Falha ao gerar imagem.");
       } finally {
+          imageGenerationAbortRef.current = null;
           setIsGeneratingImage(false);
       }
   };
 
-  const removeTweetImage = () => {
-      saveToHistory(carouselState);
-      updateTweetData(prev => ({ ...prev, tweetImage: null }));
-  }
+  // --- Carousel Slide Management ---
+  const handleSelectSlide = (index: number) => {
+    if (index === carouselState.activeSlideIndex) return;
+    setEditingField(null);
+    saveToHistory(carouselState);
+    setCarouselState(prev => ({ ...prev, activeSlideIndex: index }));
+  };
+
+  const handleAddSlide = () => {
+    if (carouselState.slides.length >= MAX_SLIDES) return;
+    saveToHistory(carouselState);
+    setCarouselState(prev => {
+      const current = prev.slides[prev.activeSlideIndex];
+      // New slides start from the defaults but keep the author, background, accent and fonts of the current one
+      const newSlide: TweetData = {
+        ...DEFAULT_TWEET_DATA,
+        displayName: current.displayName,
+        handle: current.handle,
+        avatarUrl: current.avatarUrl,
+        badge: current.badge,
+        badgeIconUrl: current.badgeIconUrl,
+        background: current.background,
+        accentColor: current.accentColor,
+        headerFont: { ...current.headerFont },
+        bodyFont: { ...current.bodyFont },
+      };
+      const slides = [...prev.slides];
+      slides.splice(prev.activeSlideIndex + 1, 0, newSlide);
+      return { ...prev, slides, activeSlideIndex: prev.activeSlideIndex + 1 };
+    });
+  };
+
+  const handleDuplicateSlide = (index: number) => {
+    if (carouselState.slides.length >= MAX_SLIDES) return;
+    saveToHistory(carouselState);
+    setCarouselState(prev => {
+      const source = prev.slides[index];
+      const copy: TweetData = {
+        ...source,
+        headerPosition: { ...source.headerPosition },
+        contentPosition: { ...source.contentPosition },
+        tweetImages: source.tweetImages.map(media => ({ ...media, focalPoint: { ...media.focalPoint } })),
+        tweetImagePosition: { ...source.tweetImagePosition },
+      };
+      const slides = [...prev.slides];
+      slides.splice(index + 1, 0, copy);
+      return { ...prev, slides, activeSlideIndex: index + 1 };
+    });
+  };
+
+  const handleDeleteSlide = (index: number) => {
+    if (carouselState.slides.length <= 1) return;
+    setEditingField(null);
+    saveToHistory(carouselState);
+    setCarouselState(prev => {
+      const slides = prev.slides.filter((_, idx) => idx !== index);
+      let activeSlideIndex = prev.activeSlideIndex;
+      if (index < activeSlideIndex) activeSlideIndex -= 1;
+      return { ...prev, slides, activeSlideIndex: Math.min(activeSlideIndex, slides.length - 1) };
+    });
+  };
+
+  const handleReorderSlide = (fromIndex: number, toIndex: number) => {
+    if (fromIndex === toIndex) return;
+    saveToHistory(carouselState);
+    setCarouselState(prev => {
+      const slides = [...prev.slides];
+      const [moved] = slides.splice(fromIndex, 1);
+      slides.splice(toIndex, 0, moved);
+
+      // Keep the same slide selected after the move
+      let activeSlideIndex = prev.activeSlideIndex;
+      if (activeSlideIndex === fromIndex) activeSlideIndex = toIndex;
+      else if (fromIndex < activeSlideIndex && toIndex >= activeSlideIndex) activeSlideIndex -= 1;
+      else if (fromIndex > activeSlideIndex && toIndex <= activeSlideIndex) activeSlideIndex += 1;
+
+      return { ...prev, slides, activeSlideIndex };
+    });
+  };
+
+  const handleApplyGeneratedText = (text: string) => {
+    saveToHistory(carouselState);
+    updateTweetData(prev => ({ ...prev, content: text }));
+  };
+
+  // Replaces the carousel with AI-written slides that keep the current author, background, accent, font and text scale
+  const handleGeneratedCarousel = (generated: GeneratedSlide[]) => {
+    setEditingField(null);
+    saveToHistory(carouselState);
+    setCarouselState(prev => {
+      const current = prev.slides[prev.activeSlideIndex];
+      const slides = generated.map((slide): TweetData => ({
+        ...DEFAULT_TWEET_DATA,
+        displayName: current.displayName,
+        handle: current.handle,
+        avatarUrl: current.avatarUrl,
+        badge: current.badge,
+        badgeIconUrl: current.badgeIconUrl,
+        background: current.background,
+        accentColor: current.accentColor,
+        headerFont: { ...current.headerFont },
+        bodyFont: { ...current.bodyFont },
+        headerScale: current.headerScale,
+        contentScale: current.contentScale,
+        content: slide.text,
+      }));
+      return { ...prev, slides, activeSlideIndex: 0 };
+    });
+  };
 
   const handleDownload = async () => {
-    if (previewRef.current) {
-      try {
-        setGuidelines([]); 
-        // Ensure no active editing or dragging when saving
-        setEditingField(null);
-        setDraggingItem(null);
-        setResizingItem(null);
-
-        // Allow UI to update before snapshot
-        await new Promise(resolve => setTimeout(resolve, 50));
-
-        const options = {
-            quality: 0.95, 
-            backgroundColor: '#ffffff',
-            width: 1080,
-            height: 1440,
-            pixelRatio: 1, 
-            style: {
-                transform: 'none', 
-                transformOrigin: 'top left',
-                margin: '0',
-            },
-            filter: (node: HTMLElement) => {
-               // Exclude resize handles and inputs from screenshot if any remain
-               return !node.className?.includes?.('resize') && node.tagName !== 'TEXTAREA' && node.tagName !== 'INPUT' && !node.className?.includes?.('absolute');
-            }
-        };
-
-        const dataUrl = await htmlToImage.toJpeg(previewRef.current, options);
-        
-        const link = document.createElement('a');
-        const ext = 'jpg';
-        link.download = `post-tweet-${Date.now()}.${ext}`;
-        link.href = dataUrl;
-        link.click();
-      } catch (err) {
-        console.error('Download failed', err);
-        setError("Falha ao gerar o download da imagem.");
+    try {
+      setGuidelines([]); 
+      // Ensure no active editing or dragging when saving
+      setEditingField(null);
+      setDraggingItem(null);
+      setResizingItem(null);
+
+      const dataUrl = await exportSlide(tweetData, canvas, exportSettings);
+      downloadFile(dataUrl, `post-tweet-${Date.now()}.${getFileExtension(dataUrl)}`);
+    } catch (err) {
+      console.error('Download failed', err);
+      setError("Falha ao gerar o download da imagem.");
+    }
+  };
+
+  const handleDownloadCarousel = async () => {
+    if (exportProgress) return;
+    setGuidelines([]);
+    setEditingField(null);
+
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setError(null);
+
+    try {
+      const zipBlob = await exportCarouselAsZip(carouselState.slides, canvas, exportSettings, setExportProgress, controller.signal);
+      const url = URL.createObjectURL(zipBlob);
+      downloadFile(url, `carrossel-${Date.now()}.zip`);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error('Carousel export failed', err);
+        setError("Falha ao exportar o carrossel.");
       }
+    } finally {
+      exportAbortRef.current = null;
+      setExportProgress(null);
     }
   };
 
+  const handleCancelCarouselExport = () => {
+    exportAbortRef.current?.abort();
+  };
+
   return (
     <div 
       className="h-[100dvh] bg-slate-900 flex flex-col md:flex-row text-slate-900 font-sans selection:bg-blue-200 selection:text-blue-900 overflow-hidden"
@@ -573,6 +1178,21 @@ const App: React.FC = () => {
           </div>
           
           <div className="flex gap-1 bg-gray-50 p-1 rounded-lg border border-gray-200 shadow-sm">
+            <button 
+              onClick={handleOpenLibrary} 
+              className="p-2 text-gray-400 hover:text-gray-900 hover:bg-white rounded transition-all"
+              title="Meus projetos"
+            >
+              <FolderOpen size={18} />
+            </button>
+            <button 
+              onClick={handleOpenTemplateGallery} 
+              className="p-2 text-gray-400 hover:text-gray-900 hover:bg-white rounded transition-all"
+              title="Modelos"
+            >
+              <LayoutTemplate size={18} />
+            </button>
+            <div className="w-px bg-gray-200 my-1"></div>
             <button 
               onClick={handleUndo} 
               disabled={history.length === 0}
@@ -593,29 +1213,134 @@ const App: React.FC = () => {
           </div>
         </header>
 
-        {/* Background Selector */}
+        <input
+          type="text"
+          value={projectName}
+          onChange={(e) => setProjectName(e.target.value)}
+          onBlur={() => { if (!projectName.trim()) setProjectName(DEFAULT_PROJECT_NAME); }}
+          className="-mt-4 bg-transparent border-b border-transparent hover:border-gray-200 focus:border-blue-500 text-sm font-semibold text-gray-700 outline-none py-1 transition-colors"
+          title="Nome do projeto"
+        />
+
+        {/* Brand Kits */}
         <section className="space-y-4">
              <div className="flex items-center gap-2 mb-2">
-                <Palette size={14} className="text-blue-600" />
-                <h2 className="text-[11px] font-bold text-gray-500 uppercase tracking-widest">Estilo do Fundo</h2>
+                <Briefcase size={14} className="text-blue-600" />
+                <h2 className="text-[11px] font-bold text-gray-500 uppercase tracking-widest">Kits de Marca</h2>
              </div>
-             
-             <div className="grid grid-cols-3 gap-3">
-                {BACKGROUND_OPTIONS.map((bg) => (
+
+             <BrandKitPanel
+                data={tweetData}
+                fonts={carouselState.fonts}
+                kits={brandKits}
+                activeKitId={activeBrandKitId}
+                onKitsChange={handleBrandKitsChange}
+                onActiveKitChange={handleActiveBrandKitChange}
+                onApply={handleApplyBrandKit}
+                onOptionChange={handleSlideOptionChange}
+                onError={setError}
+             />
+        </section>
+
+        {/* Canvas Format Selector */}
+        <section className="space-y-4">
+             <div className="flex items-center gap-2 mb-2">
+                <RectangleHorizontal size={14} className="text-blue-600" />
+                <h2 className="text-[11px] font-bold text-gray-500 uppercase tracking-widest">Formato do Canvas</h2>
+             </div>
+
+             <div className="grid grid-cols-5 gap-2">
+                {CANVAS_FORMATS.map((format) => (
                     <button
-                        key={bg.id}
-                        onClick={() => handleBackgroundChange(bg.style)}
-                        className={`group relative aspect-video rounded-lg overflow-hidden transition-all shadow-sm border border-gray-100 ${tweetData.background === bg.style ? 'ring-2 ring-blue-500 ring-offset-2 ring-offset-white scale-[1.02]' : 'hover:scale-[1.02] opacity-80 hover:opacity-100'}`}
+                        key={format.id}
+                        onClick={() => handleCanvasFormatChange(format.id)}
+                        className={`flex flex-col items-center gap-1.5 p-2 rounded-lg border transition-all ${carouselState.canvasFormat === format.id ? 'border-blue-500 bg-blue-50 text-blue-600' : 'border-gray-200 text-gray-500 hover:border-gray-300 hover:text-gray-800'}`}
+                        title={`${format.name} (${format.width}×${format.height})`}
                     >
-                        <div className={`w-full h-full ${bg.previewClass}`}></div>
-                        <span className="absolute bottom-0 left-0 right-0 bg-black/60 text-[10px] text-white py-1 px-2 font-medium truncate">
-                            {bg.name}
-                        </span>
+                        <div className="h-8 flex items-center">
+                            <div
+                                className="border-2 border-current rounded-sm"
+                                style={{ width: `${(format.width / Math.max(format.width, format.height)) * 28}px`, height: `${(format.height / Math.max(format.width, format.height)) * 28}px` }}
+                            />
+                        </div>
+                        <span className="text-[10px] font-bold">{format.id}</span>
                     </button>
                 ))}
              </div>
         </section>
 
+        {/* Background Selector */}
+        <section className="space-y-4">
+             <div className="flex items-center gap-2 mb-2">
+                <Palette size={14} className="text-blue-600" />
+                <h2 className="text-[11px] font-bold text-gray-500 uppercase tracking-widest">Estilo do Fundo</h2>
+             </div>
+             
+             <BackgroundEditor
+                data={tweetData}
+                onOptionChange={handleSlideOptionChange}
+                onFieldChange={handleSlideFieldChange}
+                onFieldFocus={handleInputFocus}
+                onFieldBlur={handleInputBlur}
+                onError={setError}
+             />
+        </section>
+
+        {/* Text Colors */}
+        <section className="space-y-4">
+             <div className="flex items-center gap-2 mb-2">
+                <Contrast size={14} className="text-blue-600" />
+                <h2 className="text-[11px] font-bold text-gray-500 uppercase tracking-widest">Cores do Texto</h2>
+             </div>
+
+             <TextColorPanel
+                data={tweetData}
+                onOptionChange={handleSlideOptionChange}
+                onFieldChange={handleSlideFieldChange}
+                onFieldFocus={handleInputFocus}
+                onFieldBlur={handleInputBlur}
+             />
+        </section>
+
+        {/* Typography */}
+        <section className="space-y-4">
+             <div className="flex items-center gap-2 mb-2">
+                <Type size={14} className="text-blue-600" />
+                <h2 className="text-[11px] font-bold text-gray-500 uppercase tracking-widest">Tipografia</h2>
+             </div>
+
+             <TypographyPanel
+                data={tweetData}
+                fonts={carouselState.fonts}
+                onOptionChange={handleSlideOptionChange}
+                onFieldChange={handleSlideFieldChange}
+                onFieldFocus={handleInputFocus}
+                onFieldBlur={handleInputBlur}
+                onFontAdd={handleFontAdd}
+                onFontRemove={handleFontRemove}
+                onError={setError}
+             />
+        </section>
+
+        {/* Layers */}
+        <section className="space-y-4">
+             <div className="flex items-center gap-2 mb-2">
+                <Layers size={14} className="text-blue-600" />
+                <h2 className="text-[11px] font-bold text-gray-500 uppercase tracking-widest">Camadas</h2>
+             </div>
+
+             <LayersPanel
+                data={tweetData}
+                canvas={canvas}
+                selectedLayerId={selectedLayerId}
+                onSelect={setSelectedLayerId}
+                onOptionChange={handleSlideOptionChange}
+                onFieldChange={handleSlideFieldChange}
+                onFieldFocus={handleInputFocus}
+                onFieldBlur={handleInputBlur}
+             />
+        </section>
+
         {/* Layout & Sizing Controls (Simplified) */}
         <section className="space-y-4">
            <div className="flex items-center gap-2 mb-2">
@@ -636,8 +1361,12 @@ const App: React.FC = () => {
                  </div>
                  <div className="flex items-center gap-3">
                     <span className="text-xs w-16 text-gray-500 font-medium">Texto</span>
-                    <input type="range" min="0.5" max="2.0" step="0.05" value={tweetData.contentScale} onChange={(e) => { updateTweetData(p => ({...p, contentScale: parseFloat(e.target.value)})); saveToHistory(carouselState); }} className="flex-1 accent-blue-600 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer"/>
+                    <input type="range" min="0.5" max="2.0" step="0.05" value={tweetData.contentScale} disabled={tweetData.autoFitText} onChange={(e) => { updateTweetData(p => ({...p, contentScale: parseFloat(e.target.value)})); saveToHistory(carouselState); }} className="flex-1 accent-blue-600 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"/>
                  </div>
+                 <label className="flex items-center gap-2 text-xs text-gray-600 font-medium cursor-pointer">
+                    <input type="checkbox" checked={tweetData.autoFitText} onChange={(e) => handleAutoFitChange(e.target.checked)} className="accent-blue-600" />
+                    Ajustar tamanho do texto automaticamente
+                 </label>
               </div>
            </div>
         </section>
@@ -670,16 +1399,71 @@ const App: React.FC = () => {
                   placeholder="@usuario"
                 />
             </div>
-            {/* Added Textarea for Content */}
-            <textarea
+            <AuthorDetailsPanel
+                data={tweetData}
+                onOptionChange={handleSlideOptionChange}
+                onTextChange={handleInputChange}
+                onTextFocus={handleInputFocus}
+                onTextBlur={handleInputBlur}
+                onBadgeIconUpload={handleBadgeIconUpload}
+            />
+            <TweetTextEditor
                 value={tweetData.content}
+                limit={charLimit}
+                overflowsCard={isContentClipped || (!tweetData.autoFitText && estimateTextOverflow(tweetData.content, canvas, tweetData))}
+                onChange={(value) => handleInputChange('content', value)}
+                onLimitChange={setCharLimit}
                 onFocus={handleInputFocus}
                 onBlur={() => handleInputBlur('content')}
-                onChange={(e) => handleInputChange('content', e.target.value)}
-                className="w-full bg-white border border-gray-200 text-gray-900 rounded-lg px-4 py-2.5 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm placeholder-gray-400 shadow-sm resize-none h-32"
-                placeholder="O que está acontecendo?"
             />
+
+            <AiTextAssistant content={tweetData.content} onApply={handleApplyGeneratedText} onError={setError} />
+          </div>
+        </section>
+
+        {/* Card Layout (single, quote, thread) */}
+        <section className="space-y-4 border-t border-gray-200 pt-6">
+          <div className="flex items-center gap-2 mb-2">
+            <MessagesSquare size={14} className="text-blue-600" />
+            <h2 className="text-[11px] font-bold text-gray-500 uppercase tracking-widest">Layout do Tweet</h2>
+          </div>
+          <LayoutPanel
+              data={tweetData}
+              onOptionChange={handleSlideOptionChange}
+              onFieldChange={handleSlideFieldChange}
+              onFieldFocus={handleInputFocus}
+              onFieldBlur={handleInputBlur}
+              onError={setError}
+          />
+        </section>
+
+        {/* Engagement Footer */}
+        <section className="space-y-4 border-t border-gray-200 pt-6">
+          <div className="flex items-center gap-2 mb-2">
+            <BarChart2 size={14} className="text-blue-600" />
+            <h2 className="text-[11px] font-bold text-gray-500 uppercase tracking-widest">Rodapé e Engajamento</h2>
           </div>
+          <EngagementPanel
+              data={tweetData}
+              onOptionChange={handleSlideOptionChange}
+              onFieldChange={handleSlideFieldChange}
+              onFieldFocus={handleInputFocus}
+              onFieldBlur={handleInputBlur}
+          />
+        </section>
+
+        {/* AI Carousel Generator */}
+        <section className="space-y-4 border-t border-gray-200 pt-6">
+          <div className="flex items-center gap-2 mb-2">
+            <GalleryHorizontal size={14} className="text-indigo-600" />
+            <h2 className="text-[11px] font-bold text-gray-500 uppercase tracking-widest">Carrossel com IA</h2>
+          </div>
+          <CarouselGenerator
+            maxChars={estimateTextCapacity(canvas, tweetData)}
+            maxSlides={MAX_SLIDES}
+            onGenerate={handleGeneratedCarousel}
+            onError={setError}
+          />
         </section>
 
         {/* --- MEDIA SECTION --- */}
@@ -689,19 +1473,16 @@ const App: React.FC = () => {
                 <h2 className="text-[11px] font-bold text-gray-500 uppercase tracking-widest">Mídia do Tweet</h2>
             </div>
 
-            {tweetData.tweetImage ? (
-                <div className="relative group">
-                    <img src={tweetData.tweetImage} alt="Tweet Media" className="w-full h-40 object-cover rounded-lg border border-gray-200 shadow-sm" />
-                    <button 
-                        onClick={removeTweetImage}
-                        className="absolute top-2 right-2 bg-red-500 hover:bg-red-600 text-white p-1.5 rounded-full shadow-lg transition-colors"
-                        title="Remover Imagem"
-                    >
-                        <X size={16} />
-                    </button>
-                    <div className="text-xs text-center text-gray-500 mt-2">Imagem adicionada. Arraste para mover ou redimensionar.</div>
-                </div>
-            ) : (
+            <TweetMediaPanel
+                data={tweetData}
+                onOptionChange={handleSlideOptionChange}
+                onFieldChange={handleSlideFieldChange}
+                onFieldFocus={handleInputFocus}
+                onFieldBlur={handleInputBlur}
+                onEditImage={(index) => setImageEditTarget({ src: resolveImageUrl(tweetData.tweetImages[index].src), target: index })}
+            />
+
+            {tweetData.tweetImages.length < MAX_TWEET_IMAGES && (
                 <div className="bg-white rounded-xl border border-gray-200 overflow-hidden shadow-sm">
                     {/* Media Tabs */}
                     <div className="flex border-b border-gray-200">
@@ -729,13 +1510,17 @@ const App: React.FC = () => {
                                     <div className="bg-gray-100 p-3 rounded-full group-hover:bg-blue-100 transition-colors">
                                         <Upload size={24} className="text-gray-500 group-hover:text-blue-600" />
                                     </div>
-                                    <span className="text-sm font-medium text-gray-600 group-hover:text-blue-700">Enviar Imagem</span>
+                                    <span className="text-sm font-medium text-gray-600 group-hover:text-blue-700">
+                                        {tweetData.tweetImages.length > 0 ? 'Adicionar Imagens' : 'Enviar Imagens'}
+                                    </span>
+                                    <span className="text-[11px] text-gray-400">Até {MAX_TWEET_IMAGES} por tweet</span>
                                 </button>
                                 <input 
                                     type="file" 
                                     ref={tweetImageInputRef}
                                     className="hidden" 
                                     accept="image/*"
+                                    multiple
                                     onChange={handleTweetImageUpload}
                                 />
                             </div>
@@ -747,13 +1532,23 @@ const App: React.FC = () => {
                                     onChange={(e) => setImageGenerationPrompt(e.target.value)}
                                     className="w-full bg-white border border-gray-200 rounded-lg px-4 py-3 text-sm focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 outline-none resize-none h-20 placeholder-gray-400 shadow-inner"
                                 />
-                                <button 
-                                    onClick={handleImageGeneration}
-                                    disabled={isGeneratingImage}
-                                    className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-200 disabled:text-gray-400 text-white font-bold py-2.5 rounded-lg transition-all flex items-center justify-center gap-2 text-sm shadow-md shadow-indigo-200"
-                                >
-                                    {isGeneratingImage ? <Loader2 size={16} className="animate-spin" /> : "Gerar"}
-                                </button>
+                                <div className="flex gap-2">
+                                    <button 
+                                        onClick={handleImageGeneration}
+                                        disabled={isGeneratingImage}
+                                        className="flex-1 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-200 disabled:text-gray-400 text-white font-bold py-2.5 rounded-lg transition-all flex items-center justify-center gap-2 text-sm shadow-md shadow-indigo-200"
+                                    >
+                                        {isGeneratingImage ? <Loader2 size={16} className="animate-spin" /> : "Gerar"}
+                                    </button>
+                                    {isGeneratingImage && (
+                                        <button
+                                            onClick={() => imageGenerationAbortRef.current?.abort()}
+                                            className="px-3 bg-white border border-gray-200 hover:bg-gray-50 text-gray-600 font-semibold rounded-lg transition-colors flex items-center gap-1 text-xs"
+                                        >
+                                            <X size={14} /> Cancelar
+                                        </button>
+                                    )}
+                                </div>
                             </div>
                         )}
                     </div>
@@ -773,7 +1568,7 @@ const App: React.FC = () => {
           <div className="flex items-start gap-4 bg-gray-50 p-4 rounded-xl border border-gray-200 shadow-sm">
              {/* Preview */}
              <div className="relative shrink-0 group cursor-pointer" onClick={() => fileInputRef.current?.click()}>
-               <img src={tweetData.avatarUrl} className="w-16 h-16 rounded-full object-cover border-2 border-white shadow-md group-hover:ring-2 ring-blue-500 transition-all" alt="Avatar" />
+               <img src={resolveImageUrl(tweetData.avatarUrl)} className="w-16 h-16 rounded-full object-cover border-2 border-white shadow-md group-hover:ring-2 ring-blue-500 transition-all" alt="Avatar" />
                <div className="absolute inset-0 bg-black/40 rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
                   <Upload size={16} className="text-white" />
                </div>
@@ -788,6 +1583,13 @@ const App: React.FC = () => {
                   <Upload size={14} />
                   Trocar Foto
                 </button>
+                <button
+                  onClick={() => setImageEditTarget({ src: resolveImageUrl(tweetData.avatarUrl), target: 'avatar' })}
+                  className="w-full bg-white hover:bg-gray-50 text-gray-700 text-xs font-semibold py-2 px-3 rounded-lg border border-gray-200 transition-colors flex items-center justify-center gap-2 shadow-sm"
+                >
+                  <Crop size={14} />
+                  Recortar e Ajustar
+                </button>
                 <input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={handleFileUpload} />
 
                 {/* AI Edit - Compact */}
@@ -799,15 +1601,38 @@ const App: React.FC = () => {
                       onChange={(e) => setPrompt(e.target.value)}
                       className="flex-1 bg-white border border-gray-200 rounded-lg px-3 py-2 text-xs focus:ring-1 focus:ring-blue-500 outline-none text-gray-800 placeholder-gray-400 shadow-sm"
                    />
-                   <button onClick={handleGeminiEdit} disabled={isProcessing} className="bg-indigo-600 hover:bg-indigo-700 w-9 rounded-lg text-white flex items-center justify-center transition-colors shadow-md shadow-indigo-200">
+                   <button onClick={handleAiEdit} disabled={isProcessing} className="bg-indigo-600 hover:bg-indigo-700 w-9 rounded-lg text-white flex items-center justify-center transition-colors shadow-md shadow-indigo-200">
                       {isProcessing ? <Loader2 size={14} className="animate-spin" /> : <Wand2 size={14} />}
                    </button>
+                   {isProcessing && (
+                     <button onClick={() => avatarEditAbortRef.current?.abort()} title="Cancelar" className="bg-white hover:bg-gray-50 border border-gray-200 w-9 rounded-lg text-gray-600 flex items-center justify-center transition-colors shadow-sm">
+                        <X size={14} />
+                     </button>
+                   )}
                 </div>
              </div>
           </div>
           {error && <p className="text-xs text-red-600 bg-red-50 p-2 rounded border border-red-100 flex items-center gap-1"><AlertCircle size={12}/> {error}</p>}
         </section>
         
+        {/* AI Provider */}
+        <section className="space-y-4 border-t border-gray-200 pt-6">
+          <div className="flex items-center gap-2 mb-2">
+            <Cpu size={14} className="text-blue-600" />
+            <h2 className="text-[11px] font-bold text-gray-500 uppercase tracking-widest">Provedor de IA</h2>
+          </div>
+          <AiSettingsPanel settings={aiSettings} onChange={handleAiSettingsChange} />
+        </section>
+        
+        {/* Export Settings */}
+        <section className="space-y-4 border-t border-gray-200 pt-6">
+          <div className="flex items-center gap-2 mb-2">
+            <SlidersHorizontal size={14} className="text-blue-600" />
+            <h2 className="text-[11px] font-bold text-gray-500 uppercase tracking-widest">Exportação</h2>
+          </div>
+          <ExportSettingsPanel settings={exportSettings} onChange={setExportSettings} />
+        </section>
+        
         {/* Desktop Download */}
         <div className="hidden md:block pt-4 border-t border-gray-200 pb-2">
              <button
@@ -822,43 +1647,145 @@ const App: React.FC = () => {
 
       {/* PREVIEW AREA (DARK MODE) */}
       <div 
-        ref={containerRef}
         className={`
-            flex-1 bg-slate-950 overflow-hidden relative items-center justify-center
+            flex-1 bg-slate-950 overflow-hidden relative flex-col pb-16 md:pb-0
             ${activeTab === 'preview' ? 'flex' : 'hidden md:flex'}
-            ${draggingItem ? 'cursor-grabbing' : ''}
         `}
       >
-        {/* Dark Grid Pattern */}
-        <div className="absolute inset-0 opacity-[0.05]" style={{ backgroundImage: 'radial-gradient(#ffffff 1px, transparent 1px)', backgroundSize: '24px 24px' }}></div>
-        
         <div 
-            style={{ transform: `scale(${scale})`, transformOrigin: 'center center' }}
-            className="transition-transform duration-75 ease-out shadow-2xl origin-center ring-1 ring-white/10"
+          ref={containerRef}
+          className={`
+              flex-1 min-h-0 overflow-hidden relative flex items-center justify-center
+              ${draggingItem ? 'cursor-grabbing' : ''}
+          `}
         >
-            <div ref={previewRef} className="bg-white shrink-0 relative">
-               <TweetCard 
-                   data={tweetData} 
-                   onMouseDown={handleDragStart} 
-                   onTouchStart={handleTouchStart}
-                   onResizeStart={handleResizeStart} 
-                   onDoubleClick={handleDoubleClick}
-                   editingField={editingField}
-                   onEditChange={handleEditChange}
-                   onEditBlur={handleEditBlur}
-                   guidelines={guidelines} 
-               />
+          {/* Dark Grid Pattern */}
+          <div className="absolute inset-0 opacity-[0.05]" style={{ backgroundImage: 'radial-gradient(#ffffff 1px, transparent 1px)', backgroundSize: '24px 24px' }}></div>
+          
+          <div 
+              style={{ transform: `scale(${scale})`, transformOrigin: 'center center' }}
+              className="transition-transform duration-75 ease-out shadow-2xl origin-center ring-1 ring-white/10"
+          >
+              <div className="bg-white shrink-0 relative">
+                 <TweetCard 
+                     data={tweetData} 
+                     canvas={canvas}
+                     onMouseDown={handleDragStart} 
+                     onTouchStart={handleTouchStart}
+                     onResizeStart={handleResizeStart} 
+                     onDoubleClick={handleDoubleClick}
+                     editingField={editingField}
+                     onEditChange={handleEditChange}
+                     onEditBlur={handleEditBlur}
+                     guidelines={guidelines} 
+                     charLimit={charLimit}
+                     onOverflowChange={setIsContentClipped}
+                     selectedLayerId={selectedLayerId}
+                 />
+              </div>
+          </div>
+
+          {isContentClipped && (
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-2 bg-amber-500 text-white text-xs font-semibold pl-3 pr-1.5 py-1.5 rounded-full shadow-lg">
+              <AlertTriangle size={14} />
+              Texto cortado no card
+              {!tweetData.autoFitText && (
+                <button onClick={() => handleAutoFitChange(true)} className="bg-white/20 hover:bg-white/30 rounded-full px-2 py-0.5 transition-colors">
+                  Ajustar
+                </button>
+              )}
             </div>
+          )}
+
+          <button
+              onClick={handleDownload}
+              className="md:hidden absolute bottom-6 right-6 bg-emerald-500 text-white p-4 rounded-full shadow-2xl z-50 flex items-center justify-center active:scale-95"
+          >
+              <Download size={28} />
+          </button>
         </div>
 
-        <button
-            onClick={handleDownload}
-            className="md:hidden absolute bottom-24 right-6 bg-emerald-500 text-white p-4 rounded-full shadow-2xl z-50 flex items-center justify-center active:scale-95"
-        >
-            <Download size={28} />
-        </button>
+        {/* Carousel Slide Strip */}
+        <SlideStrip
+            slides={carouselState.slides}
+            canvas={canvas}
+            activeIndex={carouselState.activeSlideIndex}
+            maxSlides={MAX_SLIDES}
+            onSelect={handleSelectSlide}
+            onAdd={handleAddSlide}
+            onDuplicate={handleDuplicateSlide}
+            onDelete={handleDeleteSlide}
+            onReorder={handleReorderSlide}
+            onDownloadAll={handleDownloadCarousel}
+            isExporting={exportProgress !== null}
+        />
+
+        {/* Carousel Export Progress */}
+        {exportProgress && (
+          <div className="absolute inset-0 z-[60] bg-slate-950/70 backdrop-blur-sm flex items-center justify-center p-6">
+            <div className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-xs space-y-4">
+              <div className="flex items-center gap-2 text-sm font-semibold text-gray-800">
+                <Loader2 size={16} className="animate-spin text-emerald-600" />
+                Exportando slide {Math.min(exportProgress.completed + 1, exportProgress.total)} de {exportProgress.total}
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-emerald-500 transition-all"
+                  style={{ width: `${(exportProgress.completed / exportProgress.total) * 100}%` }}
+                />
+              </div>
+              <button
+                onClick={handleCancelCarouselExport}
+                className="w-full bg-white hover:bg-gray-50 text-gray-700 text-xs font-semibold py-2 rounded-lg border border-gray-200 transition-colors"
+              >
+                Cancelar
+              </button>
+            </div>
+          </div>
+        )}
       </div>
 
+      {isLibraryOpen && (
+        <ProjectLibrary
+            projects={projects}
+            currentProjectId={projectId}
+            isLoading={isLoadingProjects}
+            error={libraryError}
+            onOpen={handleOpenProject}
+            onCreate={handleCreateProject}
+            onRename={handleRenameProject}
+            onDuplicate={handleDuplicateProject}
+            onDelete={handleDeleteProject}
+            onExportFile={handleExportProjectFile}
+            onImportFile={handleImportProjectFile}
+            onClose={() => setIsLibraryOpen(false)}
+        />
+      )}
+
+      {isTemplateGalleryOpen && (
+        <TemplateGallery
+            author={tweetData}
+            canvas={canvas}
+            projectName={projectName}
+            templates={savedTemplates}
+            isLoading={isLoadingTemplates}
+            error={templateError}
+            onApply={handleApplyTemplate}
+            onSave={handleSaveTemplate}
+            onDelete={handleDeleteTemplate}
+            onClose={() => setIsTemplateGalleryOpen(false)}
+        />
+      )}
+
+      {imageEditTarget && (
+        <ImageEditorDialog
+            src={imageEditTarget.src}
+            variant={imageEditTarget.target === 'avatar' ? 'avatar' : 'media'}
+            onApply={handleImageEditApply}
+            onClose={() => setImageEditTarget(null)}
+        />
+      )}
+
       {/* MOBILE NAV (LIGHT) */}
       <div className="md:hidden fixed bottom-0 left-0 right-0 h-16 bg-white border-t border-gray-200 flex items-center justify-around z-50 pb-safe shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.05)]">
         <button onClick={() => setActiveTab('editor')} className={`flex flex-col items-center gap-1 p-2 w-full ${activeTab === 'editor' ? 'text-blue-600' : 'text-gray-400'}`}>
@@ -0,0 +1,103 @@
+
+import React from 'react';
+import { AiSettings, AiProviderId } from '../types';
+
+interface AiSettingsPanelProps {
+  settings: AiSettings;
+  onChange: (settings: AiSettings) => void;
+}
+
+const PROVIDERS: { id: AiProviderId; label: string }[] = [
+  { id: 'gemini', label: 'Gemini' },
+  { id: 'openai', label: 'OpenAI' },
+  { id: 'mock', label: 'Offline' },
+];
+
+const inputClass = "w-full bg-white border border-gray-200 rounded-lg px-3 py-2 text-xs focus:ring-1 focus:ring-blue-500 outline-none text-gray-800 placeholder-gray-400";
+
+const Field = ({ label, children }: { label: string, children: React.ReactNode }) => (
+  <label className="block space-y-1">
+    <span className="text-xs text-gray-500 font-medium">{label}</span>
+    {children}
+  </label>
+);
+
+export const AiSettingsPanel: React.FC<AiSettingsPanelProps> = ({ settings, onChange }) => {
+  const update = (patch: Partial<AiSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-xl border border-gray-200 space-y-4 shadow-sm">
+      <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+        {PROVIDERS.map((provider) => (
+          <button
+            key={provider.id}
+            onClick={() => update({ provider: provider.id })}
+            className={`flex-1 py-1.5 text-xs font-semibold rounded-md transition-colors ${settings.provider === provider.id ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-800'}`}
+          >
+            {provider.label}
+          </button>
+        ))}
+      </div>
+
+      {settings.provider === 'gemini' && (
+        <div className="space-y-3">
+          <Field label="Modelo de texto">
+            <input type="text" value={settings.geminiTextModel} onChange={(e) => update({ geminiTextModel: e.target.value })} className={inputClass} />
+          </Field>
+          <Field label="Modelo de imagem">
+            <input type="text" value={settings.geminiImageModel} onChange={(e) => update({ geminiImageModel: e.target.value })} className={inputClass} />
+          </Field>
+          <p className="text-[11px] text-gray-400">A chave da API do Gemini vem da variável de ambiente API_KEY.</p>
+        </div>
+      )}
+
+      {settings.provider === 'openai' && (
+        <div className="space-y-3">
+          <Field label="URL base (compatível com OpenAI)">
+            <input type="url" value={settings.openAiBaseUrl} onChange={(e) => update({ openAiBaseUrl: e.target.value })} className={inputClass} />
+          </Field>
+          <Field label="Chave da API">
+            <input type="password" value={settings.openAiApiKey} onChange={(e) => update({ openAiApiKey: e.target.value })} placeholder="sk-..." className={inputClass} autoComplete="off" />
+          </Field>
+          <Field label="Modelo de texto">
+            <input type="text" value={settings.openAiTextModel} onChange={(e) => update({ openAiTextModel: e.target.value })} className={inputClass} />
+          </Field>
+          <Field label="Modelo de imagem">
+            <input type="text" value={settings.openAiImageModel} onChange={(e) => update({ openAiImageModel: e.target.value })} className={inputClass} />
+          </Field>
+          <p className="text-[11px] text-gray-400">A chave fica salva apenas neste navegador.</p>
+        </div>
+      )}
+
+      {settings.provider === 'mock' && (
+        <p className="text-[11px] text-gray-500">
+          Modo offline: textos e imagens de exemplo, sem rede e sem chave. Ideal para desenvolvimento e testes.
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-3 pt-3 border-t border-gray-200">
+        <Field label="Tempo limite (s)">
+          <input
+            type="number"
+            min={0}
+            max={600}
+            value={settings.timeoutSeconds}
+            onChange={(e) => update({ timeoutSeconds: Math.min(600, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+            className={inputClass}
+          />
+        </Field>
+        <Field label="Novas tentativas">
+          <input
+            type="number"
+            min={0}
+            max={5}
+            value={settings.maxRetries}
+            onChange={(e) => update({ maxRetries: Math.min(5, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+            className={inputClass}
+          />
+        </Field>
+      </div>
+      <p className="text-[11px] text-gray-400">Limite de uso (429) e falhas do servidor são repetidos com espera crescente. Use 0 s para esperar sem limite.</p>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { Sparkles, Loader2, Check, X } from 'lucide-react';
+import { TweetTone, TweetLanguage } from '../types';
+import { generateTweet, rewriteTweet, shortenTweet, translateTweet } from '../services/aiService';
+import { isAiCancelled } from '../services/aiErrors';
+
+interface AiTextAssistantProps {
+  content: string;
+  onApply: (text: string) => void;
+  onError: (message: string | null) => void;
+}
+
+type AssistantMode = 'generate' | 'rewrite' | 'shorten' | 'translate';
+
+const MODES: { id: AssistantMode; label: string }[] = [
+  { id: 'generate', label: 'Gerar' },
+  { id: 'rewrite', label: 'Reescrever' },
+  { id: 'shorten', label: 'Encurtar' },
+  { id: 'translate', label: 'Traduzir' },
+];
+
+const TONES: { id: TweetTone; label: string }[] = [
+  { id: 'viral', label: 'Viral' },
+  { id: 'professional', label: 'Profissional' },
+  { id: 'humorous', label: 'Engraçado' },
+];
+
+const LANGUAGES: { id: TweetLanguage; label: string }[] = [
+  { id: 'pt-BR', label: 'Para PT-BR' },
+  { id: 'en', label: 'Para EN' },
+];
+
+export const AiTextAssistant: React.FC<AiTextAssistantProps> = ({ content, onApply, onError }) => {
+  const [mode, setMode] = useState<AssistantMode>('generate');
+  const [topic, setTopic] = useState('');
+  const [tone, setTone] = useState<TweetTone>('viral');
+  const [maxLength, setMaxLength] = useState(280);
+  const [language, setLanguage] = useState<TweetLanguage>('en');
+  const [isLoading, setIsLoading] = useState(false);
+  const [variants, setVariants] = useState<string[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const chipClass = (active: boolean) =>
+    `flex-1 py-1.5 text-[11px] font-semibold rounded-md transition-colors ${active ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-800'}`;
+
+  const handleRun = async () => {
+    if (isLoading) return; // Enter in the topic field bypasses the disabled button
+    if (mode === 'generate' && !topic.trim()) {
+      onError("Digite um tema para gerar o tweet.");
+      return;
+    }
+    if (mode !== 'generate' && !content.trim()) {
+      onError("Escreva um texto antes de usar a IA.");
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsLoading(true);
+    setVariants([]);
+    onError(null);
+    try {
+      let results: string[];
+      if (mode === 'generate') results = await generateTweet(topic, controller.signal);
+      else if (mode === 'rewrite') results = await rewriteTweet(content, tone, controller.signal);
+      else if (mode === 'shorten') results = await shortenTweet(content, maxLength, controller.signal);
+      else results = await translateTweet(content, language, controller.signal);
+      setVariants(results);
+    } catch (err: any) {
+      if (!isAiCancelled(err)) onError(err.message || "Falha ao gerar o texto com IA.");
+    } finally {
+      abortRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  const handleApply = (variant: string) => {
+    onApply(variant);
+    setVariants([]);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+      <div className="flex items-center gap-2 px-4 py-2.5 border-b border-gray-100 bg-indigo-50/50">
+        <Sparkles size={14} className="text-indigo-600" />
+        <span className="text-xs font-semibold text-gray-700">Assistente de texto (IA)</span>
+      </div>
+
+      <div className="p-4 space-y-3">
+        <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+          {MODES.map((item) => (
+            <button key={item.id} onClick={() => { setMode(item.id); setVariants([]); }} className={chipClass(mode === item.id)}>
+              {item.label}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'generate' && (
+          <input
+            type="text"
+            value={topic}
+            onChange={(e) => setTopic(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleRun(); }}
+            placeholder="Sobre o que é o tweet?"
+            className="w-full bg-white border border-gray-200 rounded-lg px-3 py-2 text-xs focus:ring-1 focus:ring-indigo-500 outline-none text-gray-800 placeholder-gray-400"
+          />
+        )}
+
+        {mode === 'rewrite' && (
+          <div className="flex gap-1">
+            {TONES.map((item) => (
+              <button key={item.id} onClick={() => setTone(item.id)} className={`flex-1 py-1.5 text-[11px] font-semibold rounded-md border transition-colors ${tone === item.id ? 'border-indigo-500 bg-indigo-50 text-indigo-600' : 'border-gray-200 text-gray-500 hover:text-gray-800'}`}>
+                {item.label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {mode === 'shorten' && (
+          <label className="flex items-center gap-3 text-xs text-gray-500 font-medium">
+            Limite de caracteres
+            <input
+              type="number"
+              min={20}
+              max={25000}
+              value={maxLength}
+              onChange={(e) => setMaxLength(Math.max(20, parseInt(e.target.value, 10) || 20))}
+              className="w-24 bg-white border border-gray-200 rounded-lg px-3 py-1.5 text-xs focus:ring-1 focus:ring-indigo-500 outline-none text-gray-800"
+            />
+          </label>
+        )}
+
+        {mode === 'translate' && (
+          <div className="flex gap-1">
+            {LANGUAGES.map((item) => (
+              <button key={item.id} onClick={() => setLanguage(item.id)} className={`flex-1 py-1.5 text-[11px] font-semibold rounded-md border transition-colors ${language === item.id ? 'border-indigo-500 bg-indigo-50 text-indigo-600' : 'border-gray-200 text-gray-500 hover:text-gray-800'}`}>
+                {item.label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleRun}
+            disabled={isLoading}
+            className="flex-1 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-200 disabled:text-gray-400 text-white font-bold py-2 rounded-lg transition-all flex items-center justify-center gap-2 text-xs shadow-md shadow-indigo-200"
+          >
+            {isLoading ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+            {MODES.find(item => item.id === mode)?.label}
+          </button>
+          {isLoading && (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="px-3 bg-white border border-gray-200 hover:bg-gray-50 text-gray-600 font-semibold rounded-lg transition-colors flex items-center gap-1 text-xs"
+            >
+              <X size={14} /> Cancelar
+            </button>
+          )}
+        </div>
+
+        {variants.length > 0 && (
+          <div className="space-y-2">
+            <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Escolha uma versão</span>
+            {variants.map((variant, index) => (
+              <button
+                key={index}
+                onClick={() => handleApply(variant)}
+                className="group w-full text-left text-xs text-gray-700 bg-gray-50 hover:bg-indigo-50 border border-gray-200 hover:border-indigo-300 rounded-lg p-3 transition-colors whitespace-pre-wrap flex gap-2"
+              >
+                <span className="flex-1">{variant}</span>
+                <Check size={14} className="shrink-0 text-indigo-600 opacity-0 group-hover:opacity-100 transition-opacity" />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
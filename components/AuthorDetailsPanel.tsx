@@ -0,0 +1,100 @@
+
+import React, { useRef } from 'react';
+import { Ban, Upload } from 'lucide-react';
+import { TweetData, BadgeType } from '../types';
+import { VerifiedBadge } from './VerifiedBadge';
+import { resolveImageUrl } from '../services/assetStore';
+
+interface AuthorDetailsPanelProps {
+  data: TweetData;
+  onOptionChange: (patch: Partial<TweetData>) => void; // One undo step per change
+  onTextChange: (field: 'timestamp' | 'replyingTo', value: string) => void;
+  onTextFocus: () => void;
+  onTextBlur: (field: 'timestamp' | 'replyingTo') => void;
+  onBadgeIconUpload: (file: File) => void;
+}
+
+const BADGES: { id: BadgeType; label: string }[] = [
+  { id: 'none', label: 'Sem selo' },
+  { id: 'blue', label: 'Azul' },
+  { id: 'gold', label: 'Empresa' },
+  { id: 'grey', label: 'Governo' },
+  { id: 'custom', label: 'Ícone próprio' },
+];
+
+const inputClass = "w-full bg-white border border-gray-200 text-gray-900 rounded-lg px-3 py-2 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none text-xs placeholder-gray-400 shadow-sm";
+
+export const AuthorDetailsPanel: React.FC<AuthorDetailsPanelProps> = ({ data, onOptionChange, onTextChange, onTextFocus, onTextBlur, onBadgeIconUpload }) => {
+  const iconInputRef = useRef<HTMLInputElement>(null);
+
+  const handleBadgeClick = (badge: BadgeType) => {
+    // Picking "custom" without an icon goes straight to the file picker
+    if (badge === 'custom' && !data.badgeIconUrl) {
+      iconInputRef.current?.click();
+      return;
+    }
+    if (badge !== data.badge) onOptionChange({ badge });
+  };
+
+  const handleIconChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onBadgeIconUpload(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-xl border border-gray-200 space-y-3 shadow-sm">
+      <span className="text-xs text-gray-500 font-medium">Selo de verificação</span>
+      <div className="grid grid-cols-5 gap-1.5">
+        {BADGES.map((badge) => (
+          <button
+            key={badge.id}
+            onClick={() => handleBadgeClick(badge.id)}
+            title={badge.label}
+            className={`h-10 rounded-lg border flex items-center justify-center transition-colors bg-white ${data.badge === badge.id ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-200 hover:border-gray-300'}`}
+          >
+            <span className="w-5 h-5 flex items-center justify-center text-gray-400">
+              {badge.id === 'none' && <Ban size={16} />}
+              {(badge.id === 'blue' || badge.id === 'gold' || badge.id === 'grey') && <VerifiedBadge variant={badge.id} />}
+              {badge.id === 'custom' && (data.badgeIconUrl
+                ? <img src={resolveImageUrl(data.badgeIconUrl)} alt="" className="w-full h-full object-contain" />
+                : <Upload size={16} />)}
+            </span>
+          </button>
+        ))}
+      </div>
+      {data.badge === 'custom' && (
+        <button onClick={() => iconInputRef.current?.click()} className="text-[11px] font-semibold text-blue-600 hover:underline">
+          Trocar ícone
+        </button>
+      )}
+      <input type="file" ref={iconInputRef} className="hidden" accept="image/*" onChange={handleIconChange} />
+
+      <div className="grid grid-cols-2 gap-2 pt-1">
+        <input
+          type="text"
+          value={data.timestamp}
+          onFocus={onTextFocus}
+          onBlur={() => onTextBlur('timestamp')}
+          onChange={(e) => onTextChange('timestamp', e.target.value)}
+          className={inputClass}
+          placeholder="Horário (ex: 2h)"
+        />
+        <input
+          type="text"
+          value={data.replyingTo}
+          onFocus={onTextFocus}
+          onBlur={() => onTextBlur('replyingTo')}
+          onChange={(e) => onTextChange('replyingTo', e.target.value)}
+          className={inputClass}
+          placeholder="Em resposta a @..."
+        />
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-gray-600 font-medium cursor-pointer">
+        <input type="checkbox" checked={data.isPromoted} onChange={(e) => onOptionChange({ isPromoted: e.target.checked })} className="accent-blue-600" />
+        Marcar como promovido
+      </label>
+    </div>
+  );
+};
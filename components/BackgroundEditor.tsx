@@ -0,0 +1,361 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Plus, Trash2, X, Upload, Sparkles, Loader2, BookmarkPlus } from 'lucide-react';
+import { TweetData, CardBackground, BackgroundPattern, GradientStop } from '../types';
+import { BACKGROUND_OPTIONS, IMAGE_MAX_DIMENSIONS, MAX_SAVED_BACKGROUNDS } from '../constants';
+import { backgroundToPreviewCss, isSameBackground } from '../services/cardBackground';
+import { isDarkBackground } from '../services/cardTheme';
+import { loadBackgroundPalette, saveBackgroundPalette } from '../services/backgroundPalette';
+import { storeImage, resolveImageUrl, getAssetBlob } from '../services/assetStore';
+import { getAverageColor } from '../services/imageUtils';
+import { generateImage } from '../services/aiService';
+import { isAiCancelled } from '../services/aiErrors';
+
+interface BackgroundEditorProps {
+  data: TweetData;
+  onOptionChange: (patch: Partial<TweetData>) => void; // One undo step per change
+  onFieldChange: (patch: Partial<TweetData>) => void; // Sliders and color pickers; history is saved on blur
+  onFieldFocus: () => void;
+  onFieldBlur: (field: keyof TweetData) => void;
+  onError: (message: string | null) => void;
+}
+
+type BackgroundType = CardBackground['type'];
+
+const TYPES: { id: BackgroundType; label: string }[] = [
+  { id: 'solid', label: 'Cor' },
+  { id: 'gradient', label: 'Gradiente' },
+  { id: 'image', label: 'Imagem' },
+  { id: 'pattern', label: 'Padrão' },
+];
+
+const PATTERNS: { id: BackgroundPattern; label: string }[] = [
+  { id: 'dots', label: 'Pontos' },
+  { id: 'grid', label: 'Grade' },
+  { id: 'noise', label: 'Ruído' },
+];
+
+const MAX_GRADIENT_STOPS = 5;
+
+const inputClass = "w-full bg-white border border-gray-200 text-gray-900 rounded-lg px-3 py-2 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none text-xs placeholder-gray-400 shadow-sm";
+const rangeClass = "flex-1 accent-blue-600 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer";
+const chipClass = (isActive: boolean) => `flex-1 py-1.5 text-xs font-semibold rounded-md transition-colors ${isActive ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-800'}`;
+
+// The color a new background type starts from, so switching types keeps the look close
+const primaryColor = (background: CardBackground): string => {
+  switch (background.type) {
+    case 'solid': return background.color;
+    case 'gradient': return background.stops[0].color;
+    case 'pattern': return background.color;
+    case 'image': return background.averageColor;
+  }
+};
+
+const createBackground = (type: Exclude<BackgroundType, 'image'>, current: CardBackground): CardBackground => {
+  const color = primaryColor(current);
+  switch (type) {
+    case 'solid':
+      return { type, color };
+    case 'gradient':
+      return { type, shape: 'linear', angle: 135, stops: [{ color, position: 0 }, { color: '#1D9BF0', position: 100 }] };
+    case 'pattern':
+      return { type, pattern: 'dots', color, inkColor: isDarkBackground(current) ? '#38444D' : '#CFD9DE', size: 40 };
+  }
+};
+
+// Range row with a label and value, styled like the scale sliders
+const SliderRow = ({ label, value, suffix, ...inputProps }: { label: string; value: number; suffix: string } & React.InputHTMLAttributes<HTMLInputElement>) => (
+  <div className="flex items-center gap-3">
+    <span className="text-xs w-16 text-gray-500 font-medium">{label}</span>
+    <input type="range" value={value} className={rangeClass} {...inputProps} />
+    <span className="text-xs w-10 text-right text-gray-700 font-semibold tabular-nums">{value}{suffix}</span>
+  </div>
+);
+
+export const BackgroundEditor: React.FC<BackgroundEditorProps> = ({ data, onOptionChange, onFieldChange, onFieldFocus, onFieldBlur, onError }) => {
+  const background = data.background;
+  const [mode, setMode] = useState<BackgroundType>(background.type);
+  const [palette, setPalette] = useState<CardBackground[]>([]);
+  const [imagePrompt, setImagePrompt] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    loadBackgroundPalette().then(setPalette);
+    return () => abortRef.current?.abort();
+  }, []);
+
+  // Follow the slide when it changes (undo, another slide selected)
+  useEffect(() => setMode(background.type), [background.type]);
+
+  const fieldProps = { onFocus: onFieldFocus, onBlur: () => onFieldBlur('background') };
+  const setBackground = (next: CardBackground) => onOptionChange({ background: next });
+  const previewBackground = (next: CardBackground) => onFieldChange({ background: next });
+
+  const handleModeChange = (type: BackgroundType) => {
+    setMode(type);
+    if (type !== 'image' && type !== background.type) setBackground(createBackground(type, background));
+  };
+
+  const applyImage = async (src: string) => {
+    const { blur, dim } = background.type === 'image' ? background : { blur: 0, dim: 0.3 };
+    const averageColor = await getAverageColor(await getAssetBlob(src));
+    setBackground({ type: 'image', src, blur, dim, averageColor });
+  };
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await applyImage(await storeImage(file, IMAGE_MAX_DIMENSIONS.background));
+    } catch (err) {
+      console.error('Failed to store background image', err);
+      onError("Não foi possível processar a imagem.");
+    }
+  };
+
+  const handleGenerateImage = async () => {
+    if (!imagePrompt.trim()) {
+      onError("Descreva o fundo que deseja gerar.");
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsGenerating(true);
+    onError(null);
+    try {
+      const result = await generateImage(imagePrompt, controller.signal);
+      await applyImage(await storeImage(result, IMAGE_MAX_DIMENSIONS.background));
+      setImagePrompt('');
+    } catch (err: any) {
+      if (!isAiCancelled(err)) onError(err.message || "Falha ao gerar o fundo.");
+    } finally {
+      abortRef.current = null;
+      setIsGenerating(false);
+    }
+  };
+
+  const updatePalette = async (next: CardBackground[]) => {
+    try {
+      await saveBackgroundPalette(next);
+      setPalette(next);
+    } catch (err) {
+      console.error('Failed to save background palette', err);
+      onError("Não foi possível salvar o fundo. O armazenamento do navegador está cheio.");
+    }
+  };
+
+  const isInPalette = palette.some(saved => isSameBackground(saved, background));
+
+  const updateStop = (index: number, patch: Partial<GradientStop>) => {
+    if (background.type !== 'gradient') return background;
+    return { ...background, stops: background.stops.map((stop, i) => i === index ? { ...stop, ...patch } : stop) };
+  };
+
+  const swatch = (item: CardBackground, key: string, label: string, onRemove?: () => void) => (
+    <div key={key} className="relative group">
+      <button
+        onClick={() => setBackground(item)}
+        title={label}
+        className={`w-full aspect-video rounded-lg border border-gray-100 shadow-sm transition-all ${isSameBackground(item, background) ? 'ring-2 ring-blue-500 ring-offset-2 ring-offset-white' : 'opacity-80 hover:opacity-100'}`}
+        style={{ background: backgroundToPreviewCss(item) }}
+      />
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          className="absolute -top-1.5 -right-1.5 bg-red-500 hover:bg-red-600 text-white p-0.5 rounded-full shadow opacity-0 group-hover:opacity-100 transition-opacity"
+          title="Remover dos meus fundos"
+        >
+          <X size={10} />
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3">
+        {BACKGROUND_OPTIONS.map((option) => (
+          <div key={option.id} className="space-y-1">
+            {swatch(option.background, option.id, option.name)}
+            <span className="block text-[10px] text-gray-500 font-medium truncate">{option.name}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-500 font-medium">Meus fundos</span>
+          <button
+            onClick={() => updatePalette([...palette, background])}
+            disabled={isInPalette || palette.length >= MAX_SAVED_BACKGROUNDS}
+            className="flex items-center gap-1 text-[11px] font-semibold text-blue-600 hover:underline disabled:text-gray-300 disabled:no-underline"
+          >
+            <BookmarkPlus size={12} /> Salvar fundo atual
+          </button>
+        </div>
+        {palette.length > 0 ? (
+          <div className="grid grid-cols-6 gap-2">
+            {palette.map((item, index) => swatch(item, String(index), 'Meu fundo', () => updatePalette(palette.filter((_, i) => i !== index))))}
+          </div>
+        ) : (
+          <p className="text-[11px] text-gray-400">Salve fundos personalizados para reutilizar em outros projetos.</p>
+        )}
+      </div>
+
+      <div className="bg-gray-50 p-4 rounded-xl border border-gray-200 space-y-3 shadow-sm">
+        <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+          {TYPES.map((type) => (
+            <button key={type.id} onClick={() => handleModeChange(type.id)} className={chipClass(mode === type.id)}>
+              {type.label}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'solid' && background.type === 'solid' && (
+          <div className="flex gap-2">
+            <input
+              type="color"
+              value={background.color}
+              {...fieldProps}
+              onChange={(e) => previewBackground({ ...background, color: e.target.value.toUpperCase() })}
+              className="h-9 w-12 rounded-lg border border-gray-200 bg-white cursor-pointer shrink-0"
+            />
+            <span className="flex-1 flex items-center bg-white border border-gray-200 rounded-lg px-3 text-xs font-mono text-gray-700 shadow-sm">{background.color}</span>
+          </div>
+        )}
+
+        {mode === 'gradient' && background.type === 'gradient' && (
+          <div className="space-y-3">
+            <div className="h-8 rounded-lg border border-gray-200" style={{ background: backgroundToPreviewCss(background) }} />
+            <div className="flex gap-1 bg-gray-100 p-0.5 rounded-md">
+              <button onClick={() => background.shape !== 'linear' && setBackground({ ...background, shape: 'linear' })} className={chipClass(background.shape === 'linear')}>Linear</button>
+              <button onClick={() => background.shape !== 'radial' && setBackground({ ...background, shape: 'radial' })} className={chipClass(background.shape === 'radial')}>Radial</button>
+            </div>
+            {background.shape === 'linear' && (
+              <SliderRow
+                label="Ângulo"
+                value={background.angle}
+                suffix="°"
+                min={0}
+                max={360}
+                {...fieldProps}
+                onChange={(e) => previewBackground({ ...background, angle: Number(e.target.value) })}
+              />
+            )}
+            {background.stops.map((stop, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={stop.color}
+                  {...fieldProps}
+                  onChange={(e) => previewBackground(updateStop(index, { color: e.target.value.toUpperCase() }))}
+                  className="h-7 w-9 rounded border border-gray-200 bg-white cursor-pointer shrink-0"
+                />
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={stop.position}
+                  {...fieldProps}
+                  onChange={(e) => previewBackground(updateStop(index, { position: Number(e.target.value) }))}
+                  className={rangeClass}
+                />
+                <span className="text-xs w-9 text-right text-gray-700 font-semibold tabular-nums">{stop.position}%</span>
+                <button
+                  onClick={() => setBackground({ ...background, stops: background.stops.filter((_, i) => i !== index) })}
+                  disabled={background.stops.length <= 2}
+                  className="text-gray-400 hover:text-red-600 disabled:opacity-30 disabled:hover:text-gray-400 transition-colors"
+                  title="Remover cor"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+            {background.stops.length < MAX_GRADIENT_STOPS && (
+              <button
+                onClick={() => setBackground({ ...background, stops: [...background.stops, { color: background.stops[background.stops.length - 1].color, position: 100 }] })}
+                className="flex items-center gap-1 text-[11px] font-semibold text-blue-600 hover:underline"
+              >
+                <Plus size={12} /> Adicionar cor
+              </button>
+            )}
+          </div>
+        )}
+
+        {mode === 'image' && (
+          <div className="space-y-3">
+            {background.type === 'image' && (
+              <div className="h-24 rounded-lg border border-gray-200 bg-cover bg-center" style={{ backgroundImage: `url("${resolveImageUrl(background.src)}")` }} />
+            )}
+            <button
+              onClick={() => imageInputRef.current?.click()}
+              className="w-full bg-white hover:bg-gray-50 text-gray-700 text-xs font-semibold py-2 px-3 rounded-lg border border-gray-200 transition-colors flex items-center justify-center gap-2 shadow-sm"
+            >
+              <Upload size={14} />
+              {background.type === 'image' ? 'Trocar imagem' : 'Enviar imagem'}
+            </button>
+            <input type="file" ref={imageInputRef} className="hidden" accept="image/*" onChange={handleImageUpload} />
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={imagePrompt}
+                onChange={(e) => setImagePrompt(e.target.value)}
+                placeholder="Gerar fundo com IA..."
+                className={inputClass}
+              />
+              <button
+                onClick={handleGenerateImage}
+                disabled={isGenerating}
+                title="Gerar"
+                className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-200 w-9 shrink-0 rounded-lg text-white flex items-center justify-center transition-colors shadow-md shadow-indigo-200"
+              >
+                {isGenerating ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+              </button>
+              {isGenerating && (
+                <button onClick={() => abortRef.current?.abort()} title="Cancelar" className="bg-white hover:bg-gray-50 border border-gray-200 w-9 shrink-0 rounded-lg text-gray-600 flex items-center justify-center transition-colors shadow-sm">
+                  <X size={14} />
+                </button>
+              )}
+            </div>
+            {background.type === 'image' && (
+              <>
+                <SliderRow label="Desfoque" value={background.blur} suffix="px" min={0} max={40} {...fieldProps} onChange={(e) => previewBackground({ ...background, blur: Number(e.target.value) })} />
+                <SliderRow label="Escurecer" value={Math.round(background.dim * 100)} suffix="%" min={0} max={90} {...fieldProps} onChange={(e) => previewBackground({ ...background, dim: Number(e.target.value) / 100 })} />
+              </>
+            )}
+          </div>
+        )}
+
+        {mode === 'pattern' && background.type === 'pattern' && (
+          <div className="space-y-3">
+            <div className="flex gap-1 bg-gray-100 p-0.5 rounded-md">
+              {PATTERNS.map((pattern) => (
+                <button
+                  key={pattern.id}
+                  onClick={() => pattern.id !== background.pattern && setBackground({ ...background, pattern: pattern.id })}
+                  className={chipClass(background.pattern === pattern.id)}
+                >
+                  {pattern.label}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="flex items-center gap-2 text-xs text-gray-500 font-medium">
+                <input type="color" value={background.color} {...fieldProps} onChange={(e) => previewBackground({ ...background, color: e.target.value.toUpperCase() })} className="h-7 w-9 rounded border border-gray-200 bg-white cursor-pointer" />
+                Fundo
+              </label>
+              <label className="flex items-center gap-2 text-xs text-gray-500 font-medium">
+                <input type="color" value={background.inkColor} {...fieldProps} onChange={(e) => previewBackground({ ...background, inkColor: e.target.value.toUpperCase() })} className="h-7 w-9 rounded border border-gray-200 bg-white cursor-pointer" />
+                Desenho
+              </label>
+            </div>
+            <SliderRow label="Tamanho" value={background.size} suffix="px" min={8} max={160} {...fieldProps} onChange={(e) => previewBackground({ ...background, size: Number(e.target.value) })} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
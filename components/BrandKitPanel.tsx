@@ -0,0 +1,220 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Plus, Trash2, X, FileDown, FileUp, RefreshCw, BookmarkPlus } from 'lucide-react';
+import { TweetData, BrandKit, CardBackground, UploadedFont } from '../types';
+import { resolveImageUrl } from '../services/assetStore';
+import { backgroundToPreviewCss, cloneBackground, isSameBackground } from '../services/cardBackground';
+import { BRAND_KITS_FILE_EXTENSION, createBrandKit, getSlideBrand, mergeBrandKits, parseBrandKitsFile, serializeBrandKitsFile } from '../services/brandKits';
+import { ProjectFileError } from '../services/projectFile';
+import { getFontName } from '../services/cardFonts';
+import { downloadFile } from '../services/exportService';
+
+interface BrandKitPanelProps {
+  data: TweetData;
+  fonts: UploadedFont[]; // The project's uploaded fonts
+  kits: BrandKit[];
+  activeKitId: string | null;
+  onKitsChange: (kits: BrandKit[]) => void;
+  onActiveKitChange: (id: string | null) => void;
+  onApply: (kit: BrandKit, scope: 'slide' | 'carousel') => void;
+  onOptionChange: (patch: Partial<TweetData>) => void; // One undo step per change
+  onError: (message: string | null) => void;
+}
+
+const inputClass = "w-full bg-white border border-gray-200 text-gray-900 rounded-lg px-3 py-2 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none text-xs placeholder-gray-400 shadow-sm";
+
+const iconButtonClass = "p-2 text-gray-400 hover:text-gray-900 hover:bg-white rounded transition-all disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-400";
+
+export const BrandKitPanel: React.FC<BrandKitPanelProps> = ({ data, fonts, kits, activeKitId, onKitsChange, onActiveKitChange, onApply, onOptionChange, onError }) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const activeKit = kits.find(kit => kit.id === activeKitId) ?? null;
+
+  // Renames are committed on blur so storage isn't rewritten on every keystroke
+  const [draftName, setDraftName] = useState(activeKit?.name ?? '');
+  useEffect(() => setDraftName(activeKit?.name ?? ''), [activeKit?.id, activeKit?.name]);
+
+  const updateKit = (patch: Partial<BrandKit>) => {
+    if (!activeKit) return;
+    onKitsChange(kits.map(kit => kit.id === activeKit.id ? { ...kit, ...patch } : kit));
+  };
+
+  const handleCreate = () => {
+    const kit = createBrandKit(data.displayName.trim() || `Kit ${kits.length + 1}`, data, fonts);
+    onKitsChange([...kits, kit]);
+    onActiveKitChange(kit.id);
+  };
+
+  const handleDelete = () => {
+    if (!activeKit || !window.confirm(`Excluir o kit "${activeKit.name}"?`)) return;
+    onKitsChange(kits.filter(kit => kit.id !== activeKit.id));
+    onActiveKitChange(null);
+  };
+
+  const handleRename = () => {
+    const name = draftName.trim();
+    if (!activeKit || !name) {
+      setDraftName(activeKit?.name ?? '');
+      return;
+    }
+    if (name !== activeKit.name) updateKit({ name });
+  };
+
+  const handleExport = async () => {
+    try {
+      const blob = new Blob([await serializeBrandKitsFile(kits)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      downloadFile(url, `kits-de-marca${BRAND_KITS_FILE_EXTENSION}`);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      console.error('Failed to export brand kits', err);
+      onError("Não foi possível exportar os kits.");
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    onError(null);
+    try {
+      const imported = await parseBrandKitsFile(await file.text());
+      if (imported.length === 0) return;
+      onKitsChange(mergeBrandKits(kits, imported));
+      onActiveKitChange(imported[0].id);
+    } catch (err) {
+      if (err instanceof ProjectFileError) {
+        onError(`Arquivo inválido: ${err.message}`);
+      } else {
+        console.error('Failed to import brand kits', err);
+        onError("Não foi possível importar o arquivo.");
+      }
+    }
+  };
+
+  const fontLabel = activeKit && Array.from(new Set([activeKit.headerFont.font, activeKit.bodyFont.font]))
+    .map(font => getFontName(font, activeKit.fonts))
+    .join(' / ');
+
+  const isBackgroundSaved = activeKit?.backgrounds.some(saved => isSameBackground(saved, data.background)) ?? false;
+
+  const removeBackground = (index: number) => {
+    if (!activeKit) return;
+    updateKit({ backgrounds: activeKit.backgrounds.filter((_, i) => i !== index) });
+  };
+
+  const swatch = (background: CardBackground, index: number) => (
+    <div key={index} className="relative group">
+      <button
+        onClick={() => onOptionChange({ background: cloneBackground(background) })}
+        title={index === 0 ? 'Fundo principal do kit' : 'Fundo do kit'}
+        className={`w-full aspect-video rounded-lg border border-gray-100 shadow-sm transition-all ${isSameBackground(background, data.background) ? 'ring-2 ring-blue-500 ring-offset-2 ring-offset-white' : 'opacity-80 hover:opacity-100'}`}
+        style={{ background: backgroundToPreviewCss(background) }}
+      />
+      <button
+        onClick={() => removeBackground(index)}
+        className="absolute -top-1.5 -right-1.5 bg-red-500 hover:bg-red-600 text-white p-0.5 rounded-full shadow opacity-0 group-hover:opacity-100 transition-opacity"
+        title="Remover do kit"
+      >
+        <X size={10} />
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-xl border border-gray-200 space-y-3 shadow-sm">
+      <div className="flex items-center gap-2">
+        <select
+          value={activeKit?.id ?? ''}
+          onChange={(e) => onActiveKitChange(e.target.value || null)}
+          className={inputClass}
+        >
+          <option value="">Nenhum kit selecionado</option>
+          {kits.map((kit) => <option key={kit.id} value={kit.id}>{kit.name}</option>)}
+        </select>
+        <div className="flex gap-0.5 shrink-0">
+          <button onClick={handleCreate} className={iconButtonClass} title="Novo kit a partir do slide">
+            <Plus size={16} />
+          </button>
+          <button onClick={() => importInputRef.current?.click()} className={iconButtonClass} title="Importar kits (JSON)">
+            <FileUp size={16} />
+          </button>
+          <button onClick={handleExport} disabled={kits.length === 0} className={iconButtonClass} title="Exportar kits (JSON)">
+            <FileDown size={16} />
+          </button>
+          <input ref={importInputRef} type="file" accept={`${BRAND_KITS_FILE_EXTENSION},application/json`} className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+
+      {activeKit ? (
+        <>
+          <div className="flex items-center gap-3">
+            <img src={resolveImageUrl(activeKit.avatarUrl)} alt="" className="w-10 h-10 rounded-full object-cover border border-gray-200 shrink-0" />
+            <div className="flex-1 min-w-0 space-y-1">
+              <input
+                type="text"
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={handleRename}
+                onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                className="w-full bg-transparent border-b border-transparent hover:border-gray-200 focus:border-blue-500 text-sm font-semibold text-gray-800 outline-none transition-colors"
+                title="Nome do kit"
+              />
+              <p className="text-[11px] text-gray-500 truncate">
+                {activeKit.displayName} · {activeKit.handle} · {fontLabel}
+              </p>
+            </div>
+            {activeKit.accentColor && (
+              <span className="w-5 h-5 rounded-full border border-gray-200 shrink-0" style={{ background: activeKit.accentColor }} title={`Destaque ${activeKit.accentColor}`} />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-500 font-medium">Fundos preferidos</span>
+              <button
+                onClick={() => updateKit({ backgrounds: [...activeKit.backgrounds, cloneBackground(data.background)] })}
+                disabled={isBackgroundSaved}
+                className="flex items-center gap-1 text-[11px] font-semibold text-blue-600 hover:underline disabled:text-gray-300 disabled:no-underline"
+              >
+                <BookmarkPlus size={12} /> Adicionar fundo atual
+              </button>
+            </div>
+            {activeKit.backgrounds.length > 0 ? (
+              <div className="grid grid-cols-6 gap-2">
+                {activeKit.backgrounds.map(swatch)}
+              </div>
+            ) : (
+              <p className="text-[11px] text-gray-400">Sem fundos: aplicar o kit mantém o fundo do slide.</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={() => onApply(activeKit, 'slide')} className="py-2 text-xs font-semibold rounded-lg bg-white border border-gray-200 text-gray-700 hover:border-blue-500 hover:text-blue-600 transition-colors shadow-sm">
+              Aplicar no slide
+            </button>
+            <button onClick={() => onApply(activeKit, 'carousel')} className="py-2 text-xs font-semibold rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors shadow-sm">
+              Aplicar em todos
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => updateKit(getSlideBrand(data, fonts))}
+              className="flex items-center gap-1 text-[11px] font-semibold text-gray-500 hover:text-blue-600 transition-colors"
+              title="Copia autor, selo, destaque e fontes do slide atual para o kit"
+            >
+              <RefreshCw size={12} /> Atualizar com o slide atual
+            </button>
+            <button onClick={handleDelete} className="flex items-center gap-1 text-[11px] font-semibold text-gray-400 hover:text-red-600 transition-colors">
+              <Trash2 size={12} /> Excluir
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="text-[11px] text-gray-400 leading-relaxed">
+          Guarde autor, foto, selo, fundos, cor de destaque e fontes de cada cliente. Novos projetos começam com o kit selecionado.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { Sparkles, Loader2, X } from 'lucide-react';
+import { GeneratedSlide } from '../types';
+import { generateCarousel } from '../services/aiService';
+import { isAiCancelled } from '../services/aiErrors';
+
+interface CarouselGeneratorProps {
+  maxChars: number; // Per-slide text budget at the current canvas and text scale
+  maxSlides: number;
+  onGenerate: (slides: GeneratedSlide[]) => void;
+  onError: (message: string | null) => void;
+}
+
+const MIN_SLIDES = 3;
+
+// Below this a slide can't hold a sentence; the header or text scale leaves no room
+const MIN_SLIDE_CHARS = 40;
+
+export const CarouselGenerator: React.FC<CarouselGeneratorProps> = ({ maxChars, maxSlides, onGenerate, onError }) => {
+  const [source, setSource] = useState('');
+  const [slideCount, setSlideCount] = useState(Math.min(5, maxSlides));
+  const [isLoading, setIsLoading] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleGenerate = async () => {
+    if (!source.trim()) {
+      onError("Digite um tema ou cole um texto para gerar o carrossel.");
+      return;
+    }
+    if (maxChars < MIN_SLIDE_CHARS) {
+      onError("O texto não cabe nesta escala. Diminua a escala do texto ou do cabeçalho para gerar o carrossel.");
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsLoading(true);
+    onError(null);
+    try {
+      const slides = await generateCarousel(source, slideCount, maxChars, controller.signal);
+      onGenerate(slides);
+      setSource('');
+    } catch (err: any) {
+      if (!isAiCancelled(err)) onError(err.message || "Falha ao gerar o carrossel.");
+    } finally {
+      abortRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-4 space-y-3">
+      <textarea
+        value={source}
+        onChange={(e) => setSource(e.target.value)}
+        placeholder="Digite um tema ou cole um artigo..."
+        className="w-full bg-white border border-gray-200 rounded-lg px-3 py-2.5 text-xs focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 outline-none resize-none h-24 placeholder-gray-400 shadow-inner text-gray-800"
+      />
+
+      <div className="flex items-center gap-3">
+        <span className="text-xs w-16 text-gray-500 font-medium">Slides</span>
+        <input
+          type="range"
+          min={MIN_SLIDES}
+          max={maxSlides}
+          step="1"
+          value={slideCount}
+          onChange={(e) => setSlideCount(parseInt(e.target.value, 10))}
+          className="flex-1 accent-indigo-600 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+        />
+        <span className="text-xs w-6 text-right text-gray-700 font-semibold tabular-nums">{slideCount}</span>
+      </div>
+
+      <p className={`text-[11px] ${maxChars < MIN_SLIDE_CHARS ? 'text-red-500' : 'text-gray-400'}`}>
+        {maxChars < MIN_SLIDE_CHARS
+          ? 'O texto não cabe nesta escala · diminua a escala do texto ou do cabeçalho'
+          : `Capa + ${slideCount - 2} de conteúdo + chamada final · até ${maxChars} caracteres por slide`}
+      </p>
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleGenerate}
+          disabled={isLoading}
+          className="flex-1 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-200 disabled:text-gray-400 text-white font-bold py-2.5 rounded-lg transition-all flex items-center justify-center gap-2 text-sm shadow-md shadow-indigo-200"
+        >
+          {isLoading ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />}
+          Gerar carrossel
+        </button>
+        {isLoading && (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="px-3 bg-white border border-gray-200 hover:bg-gray-50 text-gray-600 font-semibold rounded-lg transition-colors flex items-center gap-1 text-xs"
+          >
+            <X size={14} /> Cancelar
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+
+import React from 'react';
+import { TweetData, EngagementStats, TweetLanguage } from '../types';
+import { formatCompactNumber } from '../services/cardFormat';
+
+interface EngagementPanelProps {
+  data: TweetData;
+  onOptionChange: (patch: Partial<TweetData>) => void; // One undo step per change
+  onFieldChange: (patch: Partial<TweetData>) => void; // Typing; history is saved on blur
+  onFieldFocus: () => void;
+  onFieldBlur: (field: keyof TweetData) => void;
+}
+
+const STATS: { id: keyof EngagementStats; label: string }[] = [
+  { id: 'replies', label: 'Respostas' },
+  { id: 'reposts', label: 'Reposts' },
+  { id: 'likes', label: 'Curtidas' },
+  { id: 'bookmarks', label: 'Salvos' },
+  { id: 'views', label: 'Visualizações' },
+];
+
+const LOCALES: { id: TweetLanguage; label: string }[] = [
+  { id: 'pt-BR', label: 'PT-BR' },
+  { id: 'en', label: 'EN' },
+];
+
+const inputClass = "w-full bg-white border border-gray-200 text-gray-900 rounded-lg px-3 py-2 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none text-xs placeholder-gray-400 shadow-sm";
+
+export const EngagementPanel: React.FC<EngagementPanelProps> = ({ data, onOptionChange, onFieldChange, onFieldFocus, onFieldBlur }) => {
+  const handleStatChange = (id: keyof EngagementStats, value: string) => {
+    const count = Math.max(0, parseInt(value, 10) || 0);
+    onFieldChange({ engagement: { ...data.engagement, [id]: count } });
+  };
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-xl border border-gray-200 space-y-3 shadow-sm">
+      <label className="flex items-center gap-2 text-xs text-gray-600 font-medium cursor-pointer">
+        <input type="checkbox" checked={data.showFooter} onChange={(e) => onOptionChange({ showFooter: e.target.checked })} className="accent-blue-600" />
+        Mostrar data e engajamento
+      </label>
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-xs text-gray-500 font-medium">Idioma do card</span>
+        <div className="flex gap-1 bg-gray-100 p-0.5 rounded-md">
+          {LOCALES.map((item) => (
+            <button
+              key={item.id}
+              onClick={() => item.id !== data.locale && onOptionChange({ locale: item.id })}
+              className={`px-2 py-0.5 text-[10px] font-semibold rounded transition-colors ${data.locale === item.id ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-800'}`}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {data.showFooter && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="datetime-local"
+              value={data.postedAt}
+              onFocus={onFieldFocus}
+              onBlur={() => onFieldBlur('postedAt')}
+              onChange={(e) => onFieldChange({ postedAt: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={data.source}
+              onFocus={onFieldFocus}
+              onBlur={() => onFieldBlur('source')}
+              onChange={(e) => onFieldChange({ source: e.target.value })}
+              className={inputClass}
+              placeholder="Origem (opcional)"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {STATS.map((stat) => (
+              <label key={stat.id} className="block space-y-1">
+                <span className="flex justify-between text-[11px] text-gray-500 font-medium">
+                  {stat.label}
+                  <span className="text-gray-400 tabular-nums">{formatCompactNumber(data.engagement[stat.id], data.locale)}</span>
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  value={data.engagement[stat.id]}
+                  onFocus={onFieldFocus}
+                  onBlur={() => onFieldBlur('engagement')}
+                  onChange={(e) => handleStatChange(stat.id, e.target.value)}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+
+import React from 'react';
+import { ExportSettings, ExportFormat } from '../types';
+
+interface ExportSettingsPanelProps {
+  settings: ExportSettings;
+  onChange: (settings: ExportSettings) => void;
+}
+
+const FORMAT_OPTIONS: { id: ExportFormat; label: string }[] = [
+  { id: 'jpeg', label: 'JPEG' },
+  { id: 'png', label: 'PNG' },
+  { id: 'webp', label: 'WebP' },
+];
+
+const PIXEL_RATIOS: ExportSettings['pixelRatio'][] = [1, 2, 3];
+
+export const ExportSettingsPanel: React.FC<ExportSettingsPanelProps> = ({ settings, onChange }) => {
+  const update = (patch: Partial<ExportSettings>) => onChange({ ...settings, ...patch });
+
+  const supportsQuality = settings.format !== 'png';
+  const supportsTransparency = settings.format !== 'jpeg';
+
+  const segmentClass = (active: boolean) =>
+    `flex-1 py-1.5 text-xs font-semibold rounded-md transition-colors ${active ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-800'}`;
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-xl border border-gray-200 space-y-4 shadow-sm">
+      <div className="space-y-1.5">
+        <span className="text-xs text-gray-500 font-medium">Formato</span>
+        <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+          {FORMAT_OPTIONS.map((option) => (
+            <button key={option.id} onClick={() => update({ format: option.id })} className={segmentClass(settings.format === option.id)}>
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <span className={`text-xs w-16 font-medium ${supportsQuality ? 'text-gray-500' : 'text-gray-300'}`}>Qualidade</span>
+        <input
+          type="range"
+          min="0.5"
+          max="1"
+          step="0.01"
+          value={settings.quality}
+          disabled={!supportsQuality}
+          onChange={(e) => update({ quality: parseFloat(e.target.value) })}
+          className="flex-1 accent-blue-600 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer disabled:cursor-not-allowed disabled:opacity-40"
+        />
+        <span className="text-xs w-9 text-right text-gray-500 tabular-nums">{Math.round(settings.quality * 100)}%</span>
+      </div>
+
+      <div className="space-y-1.5">
+        <span className="text-xs text-gray-500 font-medium">Resolução</span>
+        <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+          {PIXEL_RATIOS.map((ratio) => (
+            <button key={ratio} onClick={() => update({ pixelRatio: ratio })} className={segmentClass(settings.pixelRatio === ratio)}>
+              {ratio}x
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className={`flex items-center gap-2 text-xs font-medium ${supportsTransparency ? 'text-gray-600 cursor-pointer' : 'text-gray-300 cursor-not-allowed'}`}>
+        <input
+          type="checkbox"
+          checked={settings.transparentBackground && supportsTransparency}
+          disabled={!supportsTransparency}
+          onChange={(e) => update({ transparentBackground: e.target.checked })}
+          className="accent-blue-600"
+        />
+        Fundo transparente
+        {!supportsTransparency && <span className="text-[10px] font-normal">(indisponível em JPEG)</span>}
+      </label>
+    </div>
+  );
+};
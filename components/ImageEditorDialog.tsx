@@ -0,0 +1,321 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Crop, RotateCcw, RotateCw, FlipHorizontal, FlipVertical, Loader2, AlertCircle } from 'lucide-react';
+import {
+  ImageAdjustments, ImageRotation, CropRect, DEFAULT_ADJUSTMENTS, FULL_CROP,
+  adjustmentsToFilter, getCenteredCrop, getOrientedSize, loadImage, renderImageEdit
+} from '../services/imageEditing';
+
+interface ImageEditorDialogProps {
+  src: string;
+  variant: 'avatar' | 'media'; // Avatars are locked to a square and cropped to a circle by default
+  onApply: (dataUrl: string) => void;
+  onClose: () => void;
+}
+
+type AspectId = 'free' | '1:1' | '4:5' | '4:3' | '16:9';
+
+const ASPECTS: { id: AspectId; label: string; ratio: number | null }[] = [
+  { id: 'free', label: 'Livre', ratio: null },
+  { id: '1:1', label: '1:1', ratio: 1 },
+  { id: '4:5', label: '4:5', ratio: 4 / 5 },
+  { id: '4:3', label: '4:3', ratio: 4 / 3 },
+  { id: '16:9', label: '16:9', ratio: 16 / 9 },
+];
+
+const ADJUSTMENTS: { id: keyof ImageAdjustments; label: string; max: number }[] = [
+  { id: 'brightness', label: 'Brilho', max: 200 },
+  { id: 'contrast', label: 'Contraste', max: 200 },
+  { id: 'saturation', label: 'Saturação', max: 200 },
+  { id: 'grayscale', label: 'Preto e branco', max: 100 },
+];
+
+// Smallest crop side, as a fraction of the image
+const MIN_CROP = 0.05;
+
+type DragMode = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+interface DragState {
+  mode: DragMode;
+  startX: number;
+  startY: number;
+  startCrop: CropRect;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const ImageEditorDialog: React.FC<ImageEditorDialogProps> = ({ src, variant, onApply, onClose }) => {
+  const isAvatar = variant === 'avatar';
+  const [rotation, setRotation] = useState<ImageRotation>(0);
+  const [flipX, setFlipX] = useState(false);
+  const [flipY, setFlipY] = useState(false);
+  const [aspectId, setAspectId] = useState<AspectId>(isAvatar ? '1:1' : 'free');
+  const [crop, setCrop] = useState<CropRect>({ ...FULL_CROP });
+  const [circle, setCircle] = useState(isAvatar);
+  const [adjustments, setAdjustments] = useState<ImageAdjustments>({ ...DEFAULT_ADJUSTMENTS });
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [orientedUrl, setOrientedUrl] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const ratio = ASPECTS.find(aspect => aspect.id === aspectId)!.ratio;
+  const oriented = naturalSize && getOrientedSize(naturalSize.width, naturalSize.height, rotation);
+
+  useEffect(() => {
+    loadImage(src)
+      .then(image => {
+        const size = { width: image.naturalWidth, height: image.naturalHeight };
+        setNaturalSize(size);
+        setCrop(getCenteredCrop(isAvatar ? 1 : null, size.width, size.height));
+      })
+      .catch((err: Error) => setError(err.message));
+  }, [src, isAvatar]);
+
+  // Preview of the rotated and flipped image; the crop box and filters are drawn over it
+  useEffect(() => {
+    let cancelled = false;
+    renderImageEdit(src, { rotation, flipX, flipY, crop: FULL_CROP, circle: false, adjustments: DEFAULT_ADJUSTMENTS })
+      .then(url => !cancelled && setOrientedUrl(url))
+      .catch((err: Error) => !cancelled && setError(err.message));
+    return () => { cancelled = true; };
+  }, [src, rotation, flipX, flipY]);
+
+  const handleAspectChange = (id: AspectId) => {
+    setAspectId(id);
+    const aspect = ASPECTS.find(item => item.id === id)!;
+    if (oriented) setCrop(getCenteredCrop(aspect.ratio, oriented.width, oriented.height));
+  };
+
+  const handleRotate = (direction: 1 | -1) => {
+    const next = ((rotation + direction * 90 + 360) % 360) as ImageRotation;
+    setRotation(next);
+    if (naturalSize) {
+      const size = getOrientedSize(naturalSize.width, naturalSize.height, next);
+      setCrop(getCenteredCrop(ratio, size.width, size.height));
+    }
+  };
+
+  // Mirror the crop with the image so it keeps framing the same content
+  const handleFlipX = () => {
+    setFlipX(!flipX);
+    setCrop(prev => ({ ...prev, x: 1 - prev.x - prev.width }));
+  };
+
+  const handleFlipY = () => {
+    setFlipY(!flipY);
+    setCrop(prev => ({ ...prev, y: 1 - prev.y - prev.height }));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, mode: DragMode) => {
+    e.stopPropagation();
+    frameRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, startCrop: crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const frame = frameRef.current;
+    if (!drag || !frame || !oriented) return;
+    const rect = frame.getBoundingClientRect();
+    const dx = (e.clientX - drag.startX) / rect.width;
+    const dy = (e.clientY - drag.startY) / rect.height;
+    const start = drag.startCrop;
+
+    if (drag.mode === 'move') {
+      setCrop({
+        ...start,
+        x: clamp(start.x + dx, 0, 1 - start.width),
+        y: clamp(start.y + dy, 0, 1 - start.height),
+      });
+      return;
+    }
+
+    // Resize around the opposite corner, keeping the aspect ratio when one is chosen
+    const dirX = drag.mode.includes('e') ? 1 : -1;
+    const dirY = drag.mode.includes('s') ? 1 : -1;
+    const anchorX = dirX > 0 ? start.x : start.x + start.width;
+    const anchorY = dirY > 0 ? start.y : start.y + start.height;
+    const maxWidth = dirX > 0 ? 1 - anchorX : anchorX;
+    const maxHeight = dirY > 0 ? 1 - anchorY : anchorY;
+
+    let width = clamp(start.width + dirX * dx, MIN_CROP, maxWidth);
+    let height = clamp(start.height + dirY * dy, MIN_CROP, maxHeight);
+    if (ratio !== null) {
+      // Height as a fraction of the image for a given width fraction
+      const heightPerWidth = (oriented.width / oriented.height) / ratio;
+      height = width * heightPerWidth;
+      if (height > maxHeight) {
+        height = maxHeight;
+        width = height / heightPerWidth;
+      }
+    }
+
+    setCrop({
+      x: dirX > 0 ? anchorX : anchorX - width,
+      y: dirY > 0 ? anchorY : anchorY - height,
+      width,
+      height,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    setError(null);
+    try {
+      onApply(await renderImageEdit(src, { rotation, flipX, flipY, crop, circle, adjustments }));
+    } catch (err: any) {
+      setError(err.message || 'Não foi possível aplicar a edição.');
+      setIsApplying(false);
+    }
+  };
+
+  const handleStyle = "absolute w-4 h-4 bg-white border-2 border-blue-500 rounded-full shadow";
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-950/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90dvh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center gap-2">
+            <Crop size={18} className="text-blue-600" />
+            <h2 className="text-lg font-bold text-gray-900">{isAvatar ? 'Recortar foto de perfil' : 'Recortar e ajustar imagem'}</h2>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-900 rounded-lg transition-colors" title="Fechar">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-5">
+          <div className="flex justify-center bg-slate-900 rounded-xl p-4 min-h-[200px] items-center">
+            {orientedUrl ? (
+              <div
+                ref={frameRef}
+                className="relative overflow-hidden touch-none select-none"
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+              >
+                <img
+                  src={orientedUrl}
+                  alt=""
+                  draggable={false}
+                  className="block max-w-full max-h-[45dvh] pointer-events-none"
+                  style={{ filter: adjustmentsToFilter(adjustments) }}
+                />
+                <div
+                  className={`absolute border-2 border-white cursor-move ${circle ? 'rounded-full' : ''}`}
+                  style={{
+                    left: `${crop.x * 100}%`,
+                    top: `${crop.y * 100}%`,
+                    width: `${crop.width * 100}%`,
+                    height: `${crop.height * 100}%`,
+                    boxShadow: '0 0 0 9999px rgba(15, 23, 42, 0.6)',
+                  }}
+                  onPointerDown={(e) => handlePointerDown(e, 'move')}
+                >
+                  <div className={`${handleStyle} -top-2 -left-2 cursor-nwse-resize`} onPointerDown={(e) => handlePointerDown(e, 'nw')} />
+                  <div className={`${handleStyle} -top-2 -right-2 cursor-nesw-resize`} onPointerDown={(e) => handlePointerDown(e, 'ne')} />
+                  <div className={`${handleStyle} -bottom-2 -left-2 cursor-nesw-resize`} onPointerDown={(e) => handlePointerDown(e, 'sw')} />
+                  <div className={`${handleStyle} -bottom-2 -right-2 cursor-nwse-resize`} onPointerDown={(e) => handlePointerDown(e, 'se')} />
+                </div>
+              </div>
+            ) : !error && (
+              <Loader2 size={24} className="animate-spin text-slate-400" />
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            {isAvatar ? (
+              <label className="flex items-center gap-2 text-xs text-gray-600 font-medium cursor-pointer">
+                <input type="checkbox" checked={circle} onChange={(e) => setCircle(e.target.checked)} className="accent-blue-600" />
+                Recorte circular
+              </label>
+            ) : (
+              <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+                {ASPECTS.map((aspect) => (
+                  <button
+                    key={aspect.id}
+                    onClick={() => handleAspectChange(aspect.id)}
+                    className={`px-2.5 py-1 text-xs font-semibold rounded-md transition-colors ${aspectId === aspect.id ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-800'}`}
+                  >
+                    {aspect.label}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-1">
+              {[
+                { icon: <RotateCcw size={16} />, title: 'Girar para a esquerda', onClick: () => handleRotate(-1) },
+                { icon: <RotateCw size={16} />, title: 'Girar para a direita', onClick: () => handleRotate(1) },
+                { icon: <FlipHorizontal size={16} />, title: 'Espelhar horizontalmente', onClick: handleFlipX },
+                { icon: <FlipVertical size={16} />, title: 'Espelhar verticalmente', onClick: handleFlipY },
+              ].map((tool) => (
+                <button
+                  key={tool.title}
+                  onClick={tool.onClick}
+                  title={tool.title}
+                  className="p-2 bg-white hover:bg-gray-50 text-gray-600 rounded-lg border border-gray-200 transition-colors shadow-sm"
+                >
+                  {tool.icon}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-x-6 gap-y-3">
+            {ADJUSTMENTS.map((item) => (
+              <label key={item.id} className="block space-y-1">
+                <span className="flex justify-between text-xs text-gray-500 font-medium">
+                  {item.label}
+                  <span className="text-gray-400 tabular-nums">{adjustments[item.id]}%</span>
+                </span>
+                <input
+                  type="range"
+                  min={0}
+                  max={item.max}
+                  value={adjustments[item.id]}
+                  onChange={(e) => setAdjustments({ ...adjustments, [item.id]: Number(e.target.value) })}
+                  className="w-full accent-blue-600"
+                />
+              </label>
+            ))}
+          </div>
+
+          {error && (
+            <p className="text-xs text-red-600 bg-red-50 p-2 rounded border border-red-100 flex items-center gap-1">
+              <AlertCircle size={12} className="shrink-0" /> {error}
+            </p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 px-6 py-4 border-t border-gray-200">
+          <button
+            onClick={() => setAdjustments({ ...DEFAULT_ADJUSTMENTS })}
+            className="text-xs font-semibold text-gray-500 hover:text-gray-900 transition-colors"
+          >
+            Restaurar ajustes
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="bg-white hover:bg-gray-50 text-gray-700 text-xs font-semibold px-4 py-2 rounded-lg border border-gray-200 transition-colors shadow-sm">
+              Cancelar
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={isApplying || !orientedUrl}
+              className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-xs font-semibold px-4 py-2 rounded-lg transition-colors shadow-sm flex items-center gap-1.5"
+            >
+              {isApplying && <Loader2 size={14} className="animate-spin" />}
+              Aplicar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,302 @@
+
+import React from 'react';
+import { Type, Smile, MoveRight, Square, ChevronsRight, Eye, EyeOff, Lock, Unlock, ChevronUp, ChevronDown, Copy, Trash2, RotateCcw } from 'lucide-react';
+import { TweetData, CanvasFormat, CardLayer, CardLayerType, LayerShape, ArrowStyle } from '../types';
+import { MAX_LAYERS, STICKER_EMOJIS } from '../constants';
+import { createLayer, duplicateLayer, moveLayer } from '../services/cardLayers';
+
+interface LayersPanelProps {
+  data: TweetData;
+  canvas: CanvasFormat; // New layers are placed on the card's center
+  selectedLayerId: string | null;
+  onSelect: (id: string | null) => void;
+  onOptionChange: (patch: Partial<TweetData>) => void; // One undo step per change
+  onFieldChange: (patch: Partial<TweetData>) => void; // Typing or dragging a slider; history is saved on blur
+  onFieldFocus: () => void;
+  onFieldBlur: (field: keyof TweetData) => void;
+}
+
+const LAYER_TYPES: { id: CardLayerType; label: string; icon: React.ElementType }[] = [
+  { id: 'text', label: 'Texto', icon: Type },
+  { id: 'sticker', label: 'Emoji', icon: Smile },
+  { id: 'arrow', label: 'Seta', icon: MoveRight },
+  { id: 'shape', label: 'Forma', icon: Square },
+  { id: 'swipe', label: 'Arraste', icon: ChevronsRight },
+];
+
+const SHAPES: { id: LayerShape; label: string }[] = [
+  { id: 'highlight', label: 'Destaque' },
+  { id: 'rectangle', label: 'Retângulo' },
+  { id: 'ellipse', label: 'Círculo' },
+];
+
+const ARROW_STYLES: { id: ArrowStyle; label: string }[] = [
+  { id: 'straight', label: 'Reta' },
+  { id: 'curved', label: 'Curva' },
+];
+
+const inputClass = "w-full bg-white border border-gray-200 text-gray-900 rounded-lg px-3 py-2 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none text-xs placeholder-gray-400 shadow-sm";
+const rangeClass = "flex-1 accent-blue-600 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer";
+const chipClass = (isActive: boolean) => `flex-1 py-1.5 text-xs font-semibold rounded-md transition-colors ${isActive ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-800'}`;
+const rowButtonClass = "p-1 text-gray-400 hover:text-gray-900 disabled:opacity-30 disabled:hover:text-gray-400 transition-colors";
+
+// What a layer is called in the list: its text, emoji or kind
+const getLayerLabel = (layer: CardLayer): string => {
+  switch (layer.type) {
+    case 'text': return layer.text.split('\n')[0] || 'Texto';
+    case 'sticker': return `${layer.emoji} Emoji`;
+    case 'arrow': return layer.style === 'curved' ? 'Seta curva' : 'Seta';
+    case 'shape': return SHAPES.find(shape => shape.id === layer.shape)!.label;
+    case 'swipe': return `${layer.text || 'Arraste'} →`;
+  }
+};
+
+// Range row with a label and value, styled like the scale sliders
+const SliderRow = ({ label, value, suffix, ...inputProps }: { label: string; value: number; suffix: string } & React.InputHTMLAttributes<HTMLInputElement>) => (
+  <div className="flex items-center gap-3">
+    <span className="text-xs w-16 text-gray-500 font-medium">{label}</span>
+    <input type="range" value={value} className={rangeClass} {...inputProps} />
+    <span className="text-xs w-10 text-right text-gray-700 font-semibold tabular-nums">{value}{suffix}</span>
+  </div>
+);
+
+export const LayersPanel: React.FC<LayersPanelProps> = ({ data, canvas, selectedLayerId, onSelect, onOptionChange, onFieldChange, onFieldFocus, onFieldBlur }) => {
+  const layers = data.layers;
+  const selected = layers.find(layer => layer.id === selectedLayerId) ?? null;
+  const isFull = layers.length >= MAX_LAYERS;
+
+  const withLayer = (id: string, patch: Partial<CardLayer>) => layers.map(layer => layer.id === id ? { ...layer, ...patch } as CardLayer : layer);
+
+  // Discrete changes are one undo step; typed and dragged ones are saved on blur
+  const setLayer = (id: string, patch: Partial<CardLayer>) => onOptionChange({ layers: withLayer(id, patch) });
+  const editLayer = (id: string, patch: Partial<CardLayer>) => onFieldChange({ layers: withLayer(id, patch) });
+
+  const fieldProps = { onFocus: onFieldFocus, onBlur: () => onFieldBlur('layers') };
+
+  const handleAdd = (type: CardLayerType) => {
+    const layer = createLayer(type, canvas);
+    onOptionChange({ layers: [...layers, layer] });
+    onSelect(layer.id);
+  };
+
+  const handleDuplicate = (layer: CardLayer) => {
+    const copy = duplicateLayer(layer);
+    const index = layers.indexOf(layer);
+    onOptionChange({ layers: [...layers.slice(0, index + 1), copy, ...layers.slice(index + 1)] });
+    onSelect(copy.id);
+  };
+
+  const handleDelete = (id: string) => {
+    onOptionChange({ layers: layers.filter(layer => layer.id !== id) });
+    if (id === selectedLayerId) onSelect(null);
+  };
+
+  // Color picker for a nullable color: null follows the card's theme
+  const colorRow = (label: string, value: string | null, fallback: string, onChange: (color: string | null) => void) => (
+    <div className="flex items-center gap-2">
+      <input
+        type="color"
+        value={value ?? fallback}
+        {...fieldProps}
+        onChange={(e) => onChange(e.target.value.toUpperCase())}
+        className="h-7 w-9 rounded border border-gray-200 bg-white cursor-pointer shrink-0"
+      />
+      <span className="flex-1 text-xs text-gray-600 font-medium">
+        {label}
+        {value === null && <span className="text-gray-400 font-normal"> · automática</span>}
+      </span>
+      <button
+        onClick={() => onOptionChange({ layers: withLayer(selected!.id, { color: null }) })}
+        disabled={value === null}
+        className="p-1 text-gray-400 hover:text-blue-600 disabled:opacity-30 disabled:hover:text-gray-400 transition-colors"
+        title="Voltar à cor automática"
+      >
+        <RotateCcw size={12} />
+      </button>
+    </div>
+  );
+
+  const typeControls = (layer: CardLayer) => {
+    switch (layer.type) {
+      case 'text':
+        return (
+          <>
+            <textarea
+              value={layer.text}
+              rows={3}
+              {...fieldProps}
+              onChange={(e) => editLayer(layer.id, { text: e.target.value })}
+              className={`${inputClass} resize-none`}
+              placeholder="Texto da caixa"
+            />
+            <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+              <button onClick={() => setLayer(layer.id, { textStyle: 'header' })} className={chipClass(layer.textStyle === 'header')}>Fonte do cabeçalho</button>
+              <button onClick={() => setLayer(layer.id, { textStyle: 'body' })} className={chipClass(layer.textStyle === 'body')}>Fonte do texto</button>
+            </div>
+            <SliderRow label="Tamanho" value={layer.fontSize} suffix="px" min="24" max="200" step="2" {...fieldProps} onChange={(e) => editLayer(layer.id, { fontSize: Number(e.target.value) })} />
+            {colorRow('Cor do texto', layer.color, '#0F1419', (color) => editLayer(layer.id, { color }))}
+            <label className="flex items-center gap-2 text-xs text-gray-600 font-medium cursor-pointer">
+              <input
+                type="checkbox"
+                checked={layer.background !== null}
+                onChange={(e) => setLayer(layer.id, { background: e.target.checked ? '#FDE047' : null })}
+                className="accent-blue-600"
+              />
+              Fundo
+              {layer.background !== null && (
+                <input
+                  type="color"
+                  value={layer.background}
+                  {...fieldProps}
+                  onChange={(e) => editLayer(layer.id, { background: e.target.value.toUpperCase() })}
+                  className="ml-auto h-7 w-9 rounded border border-gray-200 bg-white cursor-pointer"
+                />
+              )}
+            </label>
+          </>
+        );
+      case 'sticker':
+        return (
+          <>
+            <div className="grid grid-cols-8 gap-1">
+              {STICKER_EMOJIS.map((emoji) => (
+                <button
+                  key={emoji}
+                  onClick={() => setLayer(layer.id, { emoji })}
+                  className={`aspect-square rounded-lg text-lg transition-colors ${layer.emoji === emoji ? 'bg-blue-100 ring-1 ring-blue-500' : 'hover:bg-white'}`}
+                >
+                  {emoji}
+                </button>
+              ))}
+            </div>
+            <input
+              type="text"
+              value={layer.emoji}
+              {...fieldProps}
+              onChange={(e) => editLayer(layer.id, { emoji: e.target.value })}
+              className={inputClass}
+              placeholder="Ou digite um emoji"
+            />
+          </>
+        );
+      case 'arrow':
+        return (
+          <>
+            <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+              {ARROW_STYLES.map((style) => (
+                <button key={style.id} onClick={() => setLayer(layer.id, { style: style.id })} className={chipClass(layer.style === style.id)}>{style.label}</button>
+              ))}
+            </div>
+            {colorRow('Cor', layer.color, '#1D9BF0', (color) => editLayer(layer.id, { color }))}
+          </>
+        );
+      case 'shape':
+        return (
+          <>
+            <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+              {SHAPES.map((shape) => (
+                <button key={shape.id} onClick={() => setLayer(layer.id, { shape: shape.id })} className={chipClass(layer.shape === shape.id)}>{shape.label}</button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="color"
+                value={layer.color}
+                {...fieldProps}
+                onChange={(e) => editLayer(layer.id, { color: e.target.value.toUpperCase() })}
+                className="h-7 w-9 rounded border border-gray-200 bg-white cursor-pointer shrink-0"
+              />
+              <span className="text-xs text-gray-600 font-medium">Cor</span>
+            </div>
+            <SliderRow label="Largura" value={layer.width} suffix="" min="40" max="1000" step="10" {...fieldProps} onChange={(e) => editLayer(layer.id, { width: Number(e.target.value) })} />
+            <SliderRow label="Altura" value={layer.height} suffix="" min="20" max="1000" step="10" {...fieldProps} onChange={(e) => editLayer(layer.id, { height: Number(e.target.value) })} />
+          </>
+        );
+      case 'swipe':
+        return (
+          <>
+            <input
+              type="text"
+              value={layer.text}
+              {...fieldProps}
+              onChange={(e) => editLayer(layer.id, { text: e.target.value })}
+              className={inputClass}
+              placeholder="Arraste"
+            />
+            {colorRow('Cor do fundo', layer.color, '#1D9BF0', (color) => editLayer(layer.id, { color }))}
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-xl border border-gray-200 space-y-3 shadow-sm">
+      <div className="grid grid-cols-5 gap-1">
+        {LAYER_TYPES.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            onClick={() => handleAdd(id)}
+            disabled={isFull}
+            className="flex flex-col items-center gap-1 py-2 rounded-lg bg-white border border-gray-200 text-gray-600 hover:border-blue-500 hover:text-blue-600 disabled:opacity-40 disabled:hover:border-gray-200 disabled:hover:text-gray-600 transition-colors shadow-sm"
+            title={`Adicionar ${label.toLowerCase()}`}
+          >
+            <Icon size={14} />
+            <span className="text-[10px] font-semibold">{label}</span>
+          </button>
+        ))}
+      </div>
+
+      {layers.length === 0 ? (
+        <p className="text-[11px] text-gray-400 leading-relaxed">
+          Adicione textos, emojis, setas, destaques e o indicador “Arraste →” por cima do card. Arraste-os no card; a alça de cima gira.
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {/* Top of the stack first, like the card shows them */}
+          {[...layers].reverse().map((layer) => {
+            const index = layers.indexOf(layer);
+            const isSelected = layer.id === selectedLayerId;
+            return (
+              <li
+                key={layer.id}
+                onClick={() => onSelect(isSelected ? null : layer.id)}
+                className={`flex items-center gap-1 rounded-lg border px-2 py-1 cursor-pointer transition-colors ${isSelected ? 'bg-blue-50 border-blue-500' : 'bg-white border-gray-200 hover:border-gray-300'}`}
+              >
+                <span className={`flex-1 min-w-0 truncate text-xs font-medium ${layer.hidden ? 'text-gray-400 line-through' : 'text-gray-700'}`}>{getLayerLabel(layer)}</span>
+                <div className="flex shrink-0" onClick={(e) => e.stopPropagation()}>
+                  <button onClick={() => setLayer(layer.id, { hidden: !layer.hidden })} className={rowButtonClass} title={layer.hidden ? 'Mostrar' : 'Ocultar'}>
+                    {layer.hidden ? <EyeOff size={12} /> : <Eye size={12} />}
+                  </button>
+                  <button onClick={() => setLayer(layer.id, { locked: !layer.locked })} className={rowButtonClass} title={layer.locked ? 'Desbloquear' : 'Bloquear'}>
+                    {layer.locked ? <Lock size={12} className="text-blue-600" /> : <Unlock size={12} />}
+                  </button>
+                  <button onClick={() => onOptionChange({ layers: moveLayer(layers, layer.id, 1) })} disabled={index === layers.length - 1} className={rowButtonClass} title="Trazer para frente">
+                    <ChevronUp size={12} />
+                  </button>
+                  <button onClick={() => onOptionChange({ layers: moveLayer(layers, layer.id, -1) })} disabled={index === 0} className={rowButtonClass} title="Enviar para trás">
+                    <ChevronDown size={12} />
+                  </button>
+                  <button onClick={() => handleDuplicate(layer)} disabled={isFull} className={rowButtonClass} title="Duplicar">
+                    <Copy size={12} />
+                  </button>
+                  <button onClick={() => handleDelete(layer.id)} className="p-1 text-gray-400 hover:text-red-600 transition-colors" title="Excluir">
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {selected && (
+        <div className="space-y-3 pt-3 border-t border-gray-200">
+          {typeControls(selected)}
+          <SliderRow label="Escala" value={Math.round(selected.scale * 100)} suffix="%" min="20" max="300" {...fieldProps} onChange={(e) => editLayer(selected.id, { scale: Number(e.target.value) / 100 })} />
+          <SliderRow label="Rotação" value={selected.rotation} suffix="°" min="-180" max="180" {...fieldProps} onChange={(e) => editLayer(selected.id, { rotation: Number(e.target.value) })} />
+          <SliderRow label="Opacidade" value={Math.round(selected.opacity * 100)} suffix="%" min="0" max="100" {...fieldProps} onChange={(e) => editLayer(selected.id, { opacity: Number(e.target.value) / 100 })} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+
+import React, { useRef } from 'react';
+import { Plus, Trash2, ImagePlus, X } from 'lucide-react';
+import { TweetData, CardLayout, EmbeddedTweet } from '../types';
+import { MAX_THREAD_REPLIES, IMAGE_MAX_DIMENSIONS } from '../constants';
+import { storeImage, resolveImageUrl } from '../services/assetStore';
+
+interface LayoutPanelProps {
+  data: TweetData;
+  onOptionChange: (patch: Partial<TweetData>) => void; // One undo step per change
+  onFieldChange: (patch: Partial<TweetData>) => void; // Typing; history is saved on blur
+  onFieldFocus: () => void;
+  onFieldBlur: (field: keyof TweetData) => void;
+  onError: (message: string | null) => void;
+}
+
+const LAYOUTS: { id: CardLayout; label: string }[] = [
+  { id: 'single', label: 'Tweet' },
+  { id: 'quote', label: 'Citação' },
+  { id: 'thread', label: 'Thread' },
+];
+
+const BADGES: { id: EmbeddedTweet['badge']; label: string }[] = [
+  { id: 'none', label: 'Sem selo' },
+  { id: 'blue', label: 'Azul' },
+  { id: 'gold', label: 'Empresa' },
+  { id: 'grey', label: 'Governo' },
+];
+
+const inputClass = "w-full bg-white border border-gray-200 text-gray-900 rounded-lg px-3 py-2 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none text-xs placeholder-gray-400 shadow-sm";
+
+interface EmbeddedTweetFieldsProps {
+  tweet: EmbeddedTweet;
+  allowImage: boolean;
+  onType: (patch: Partial<EmbeddedTweet>) => void;
+  onPick: (patch: Partial<EmbeddedTweet>) => void;
+  onFocus: () => void;
+  onBlur: () => void;
+  onError: (message: string | null) => void;
+}
+
+// Author, avatar, badge, text and (for quotes) image of one embedded tweet
+const EmbeddedTweetFields = ({ tweet, allowImage, onType, onPick, onFocus, onBlur, onError }: EmbeddedTweetFieldsProps) => {
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>, field: 'avatarUrl' | 'image') => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onPick({ [field]: await storeImage(file, field === 'avatarUrl' ? IMAGE_MAX_DIMENSIONS.avatar : IMAGE_MAX_DIMENSIONS.media) });
+    } catch (err) {
+      console.error('Failed to store image', err);
+      onError("Não foi possível processar a imagem.");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <button onClick={() => avatarInputRef.current?.click()} className="shrink-0" title="Trocar foto">
+          <img src={resolveImageUrl(tweet.avatarUrl)} alt="" className="w-9 h-9 rounded-full object-cover border border-gray-200 hover:ring-2 ring-blue-500 transition-all" />
+        </button>
+        <input type="file" ref={avatarInputRef} className="hidden" accept="image/*" onChange={(e) => handleFile(e, 'avatarUrl')} />
+        <input type="text" value={tweet.displayName} onFocus={onFocus} onBlur={onBlur} onChange={(e) => onType({ displayName: e.target.value })} className={inputClass} placeholder="Nome" />
+        <input type="text" value={tweet.handle} onFocus={onFocus} onBlur={onBlur} onChange={(e) => onType({ handle: e.target.value })} className={inputClass} placeholder="@usuario" />
+      </div>
+      <textarea
+        value={tweet.content}
+        onFocus={onFocus}
+        onBlur={onBlur}
+        onChange={(e) => onType({ content: e.target.value })}
+        className={`${inputClass} resize-none h-16`}
+        placeholder="Texto"
+      />
+      <div className="flex items-center gap-2">
+        <select value={tweet.badge} onChange={(e) => onPick({ badge: e.target.value as EmbeddedTweet['badge'] })} className={`${inputClass} flex-1`}>
+          {BADGES.map((badge) => <option key={badge.id} value={badge.id}>{badge.label}</option>)}
+        </select>
+        {allowImage && (tweet.image ? (
+          <button onClick={() => onPick({ image: null })} className="flex items-center gap-1 text-[11px] font-semibold text-red-600 hover:underline shrink-0">
+            <X size={12} /> Remover imagem
+          </button>
+        ) : (
+          <button onClick={() => imageInputRef.current?.click()} className="flex items-center gap-1 text-[11px] font-semibold text-blue-600 hover:underline shrink-0">
+            <ImagePlus size={12} /> Imagem
+          </button>
+        ))}
+        <input type="file" ref={imageInputRef} className="hidden" accept="image/*" onChange={(e) => handleFile(e, 'image')} />
+      </div>
+    </div>
+  );
+};
+
+export const LayoutPanel: React.FC<LayoutPanelProps> = ({ data, onOptionChange, onFieldChange, onFieldFocus, onFieldBlur, onError }) => {
+  const updateReply = (index: number, patch: Partial<EmbeddedTweet>) =>
+    data.threadReplies.map((reply, i) => i === index ? { ...reply, ...patch } : reply);
+
+  const handleAddReply = () => {
+    if (data.threadReplies.length >= MAX_THREAD_REPLIES) return;
+    const last = data.threadReplies[data.threadReplies.length - 1];
+    onOptionChange({ threadReplies: [...data.threadReplies, { ...last, content: '' }] });
+  };
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-xl border border-gray-200 space-y-4 shadow-sm">
+      <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+        {LAYOUTS.map((layout) => (
+          <button
+            key={layout.id}
+            onClick={() => layout.id !== data.layout && onOptionChange({ layout: layout.id })}
+            className={`flex-1 py-1.5 text-xs font-semibold rounded-md transition-colors ${data.layout === layout.id ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-800'}`}
+          >
+            {layout.label}
+          </button>
+        ))}
+      </div>
+
+      {data.layout === 'quote' && (
+        <EmbeddedTweetFields
+          tweet={data.quotedTweet}
+          allowImage
+          onType={(patch) => onFieldChange({ quotedTweet: { ...data.quotedTweet, ...patch } })}
+          onPick={(patch) => onOptionChange({ quotedTweet: { ...data.quotedTweet, ...patch } })}
+          onFocus={onFieldFocus}
+          onBlur={() => onFieldBlur('quotedTweet')}
+          onError={onError}
+        />
+      )}
+
+      {data.layout === 'thread' && (
+        <div className="space-y-4">
+          {data.threadReplies.map((reply, index) => (
+            <div key={index} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-[11px] font-bold text-gray-400 uppercase tracking-widest">Resposta {index + 1}</span>
+                {data.threadReplies.length > 1 && (
+                  <button
+                    onClick={() => onOptionChange({ threadReplies: data.threadReplies.filter((_, i) => i !== index) })}
+                    className="text-gray-400 hover:text-red-600 transition-colors"
+                    title="Remover resposta"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                )}
+              </div>
+              <EmbeddedTweetFields
+                tweet={reply}
+                allowImage={false}
+                onType={(patch) => onFieldChange({ threadReplies: updateReply(index, patch) })}
+                onPick={(patch) => onOptionChange({ threadReplies: updateReply(index, patch) })}
+                onFocus={onFieldFocus}
+                onBlur={() => onFieldBlur('threadReplies')}
+                onError={onError}
+              />
+            </div>
+          ))}
+          {data.threadReplies.length < MAX_THREAD_REPLIES && (
+            <button
+              onClick={handleAddReply}
+              className="w-full border-2 border-dashed border-gray-200 hover:border-blue-400 text-gray-500 hover:text-blue-600 rounded-lg py-2 text-xs font-semibold flex items-center justify-center gap-1 transition-colors"
+            >
+              <Plus size={14} /> Adicionar resposta
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
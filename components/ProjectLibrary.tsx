@@ -0,0 +1,187 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Plus, Copy, Trash2, Pencil, FolderOpen, Loader2, Image as ImageIcon, FileDown, FileUp, AlertCircle } from 'lucide-react';
+import { ProjectMeta } from '../types';
+
+interface ProjectLibraryProps {
+  projects: ProjectMeta[];
+  currentProjectId: string | null;
+  isLoading: boolean;
+  error: string | null;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExportFile: (id: string) => void;
+  onImportFile: (file: File) => void;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: number) => {
+  return new Date(timestamp).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+};
+
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({
+  projects,
+  currentProjectId,
+  isLoading,
+  error,
+  onOpen,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onExportFile,
+  onImportFile,
+  onClose
+}) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  // Object URLs for the stored thumbnail blobs, created and released by the same effect
+  const [thumbnailUrls, setThumbnailUrls] = useState<Map<string, string>>(() => new Map());
+
+  useEffect(() => {
+    const urls = new Map<string, string>();
+    projects.forEach(project => {
+      if (project.thumbnail) urls.set(project.id, URL.createObjectURL(project.thumbnail));
+    });
+    setThumbnailUrls(urls);
+    return () => urls.forEach(url => URL.revokeObjectURL(url));
+  }, [projects]);
+
+  const startRename = (project: ProjectMeta) => {
+    setRenamingId(project.id);
+    setDraftName(project.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && draftName.trim()) {
+      onRename(renamingId, draftName.trim());
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (project: ProjectMeta) => {
+    if (window.confirm(`Excluir o projeto "${project.name}"? Essa ação não pode ser desfeita.`)) {
+      onDelete(project.id);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-950/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85dvh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center gap-2">
+            <FolderOpen size={18} className="text-blue-600" />
+            <h2 className="text-lg font-bold text-gray-900">Meus Projetos</h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="flex items-center gap-1.5 bg-white hover:bg-gray-50 text-gray-700 text-xs font-semibold px-3 py-2 rounded-lg border border-gray-200 transition-colors shadow-sm"
+              title="Importar arquivo .tweetgen.json"
+            >
+              <FileUp size={14} />
+              Importar
+            </button>
+            <input
+              type="file"
+              ref={importInputRef}
+              className="hidden"
+              accept=".json,application/json"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImportFile(file);
+                e.target.value = '';
+              }}
+            />
+            <button
+              onClick={onCreate}
+              className="flex items-center gap-1.5 bg-blue-600 hover:bg-blue-700 text-white text-xs font-semibold px-3 py-2 rounded-lg transition-colors shadow-sm"
+            >
+              <Plus size={14} />
+              Novo projeto
+            </button>
+            <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-900 rounded-lg transition-colors" title="Fechar">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <p className="mx-6 mt-4 text-xs text-red-600 bg-red-50 p-2 rounded border border-red-100 flex items-center gap-1">
+            <AlertCircle size={12} className="shrink-0" /> {error}
+          </p>
+        )}
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-16 text-gray-400">
+              <Loader2 size={24} className="animate-spin" />
+            </div>
+          ) : projects.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-16">Nenhum projeto salvo ainda.</p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+              {projects.map((project) => (
+                <div
+                  key={project.id}
+                  className={`group rounded-xl border overflow-hidden bg-gray-50 transition-all ${project.id === currentProjectId ? 'border-blue-500 ring-2 ring-blue-500/30' : 'border-gray-200 hover:border-gray-300'}`}
+                >
+                  <button onClick={() => onOpen(project.id)} className="block w-full aspect-[4/3] bg-slate-100 overflow-hidden" title="Abrir projeto">
+                    {thumbnailUrls.has(project.id) ? (
+                      <img src={thumbnailUrls.get(project.id)} alt={project.name} className="w-full h-full object-contain" />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center text-gray-300">
+                        <ImageIcon size={28} />
+                      </div>
+                    )}
+                  </button>
+
+                  <div className="p-3 space-y-1">
+                    {renamingId === project.id ? (
+                      <input
+                        autoFocus
+                        value={draftName}
+                        onChange={(e) => setDraftName(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        className="w-full bg-white border border-blue-500 rounded px-2 py-1 text-sm text-gray-900 outline-none"
+                      />
+                    ) : (
+                      <p className="text-sm font-semibold text-gray-900 truncate" title={project.name}>{project.name}</p>
+                    )}
+                    <p className="text-[11px] text-gray-500">
+                      {project.slideCount} {project.slideCount === 1 ? 'slide' : 'slides'} · {formatDate(project.updatedAt)}
+                    </p>
+
+                    <div className="flex gap-1 pt-1">
+                      <button onClick={() => startRename(project)} className="p-1.5 text-gray-500 hover:text-gray-900 hover:bg-white rounded transition-colors" title="Renomear">
+                        <Pencil size={14} />
+                      </button>
+                      <button onClick={() => onDuplicate(project.id)} className="p-1.5 text-gray-500 hover:text-gray-900 hover:bg-white rounded transition-colors" title="Duplicar">
+                        <Copy size={14} />
+                      </button>
+                      <button onClick={() => onExportFile(project.id)} className="p-1.5 text-gray-500 hover:text-gray-900 hover:bg-white rounded transition-colors" title="Exportar arquivo .tweetgen.json">
+                        <FileDown size={14} />
+                      </button>
+                      <button onClick={() => handleDelete(project)} className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-white rounded transition-colors ml-auto" title="Excluir">
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+
+import React, { useState } from 'react';
+import { Plus, Copy, Trash2, Download, AlertTriangle } from 'lucide-react';
+import { TweetData, CanvasFormat } from '../types';
+import { TweetCard } from './TweetCard';
+
+interface SlideStripProps {
+  slides: TweetData[];
+  canvas: CanvasFormat;
+  activeIndex: number;
+  maxSlides: number;
+  onSelect: (index: number) => void;
+  onAdd: () => void;
+  onDuplicate: (index: number) => void;
+  onDelete: (index: number) => void;
+  onReorder: (fromIndex: number, toIndex: number) => void;
+  onDownloadAll: () => void;
+  isExporting: boolean;
+}
+
+// Thumbnails share a fixed height so every canvas format lines up in the strip
+const THUMB_HEIGHT = 115;
+
+const noop = () => {};
+
+// Read-only miniature of a slide, rendered with the same TweetCard as the preview
+const SlideThumbnail = ({ data, canvas }: { data: TweetData, canvas: CanvasFormat }) => {
+  const thumbScale = THUMB_HEIGHT / canvas.height;
+  const [isOverflowing, setIsOverflowing] = useState(false);
+
+  return (
+    <div
+      className="relative overflow-hidden rounded-md pointer-events-none"
+      style={{ width: `${canvas.width * thumbScale}px`, height: `${THUMB_HEIGHT}px` }}
+    >
+      <div style={{ transform: `scale(${thumbScale})`, transformOrigin: 'top left' }}>
+        <TweetCard
+          data={data}
+          canvas={canvas}
+          onMouseDown={noop}
+          onTouchStart={noop}
+          onResizeStart={noop}
+          onDoubleClick={noop}
+          editingField={null}
+          onEditChange={noop}
+          onEditBlur={noop}
+          onOverflowChange={setIsOverflowing}
+        />
+      </div>
+      {isOverflowing && (
+        <span className="absolute top-1 right-1 bg-amber-500 text-white rounded p-0.5" title="Texto cortado">
+          <AlertTriangle size={10} />
+        </span>
+      )}
+    </div>
+  );
+};
+
+export const SlideStrip: React.FC<SlideStripProps> = ({
+  slides,
+  canvas,
+  activeIndex,
+  maxSlides,
+  onSelect,
+  onAdd,
+  onDuplicate,
+  onDelete,
+  onReorder,
+  onDownloadAll,
+  isExporting
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const canAdd = slides.length < maxSlides;
+  const canDelete = slides.length > 1;
+
+  const resetDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (dragIndex !== null && dragIndex !== index) {
+      onReorder(dragIndex, index);
+    }
+    resetDrag();
+  };
+
+  return (
+    <div className="w-full bg-slate-900/80 border-t border-white/10 backdrop-blur px-4 py-3 z-20">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+          Slide {activeIndex + 1} de {slides.length}
+        </span>
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] text-slate-500 hidden md:inline">Arraste para reordenar</span>
+          <button
+            onClick={onDownloadAll}
+            disabled={isExporting}
+            className="flex items-center gap-1.5 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white text-[10px] font-bold uppercase tracking-wide px-2.5 py-1.5 rounded-md transition-colors"
+            title="Baixar todos os slides em um .zip"
+          >
+            <Download size={12} />
+            Baixar carrossel
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-start gap-3 overflow-x-auto pb-1">
+        {slides.map((slide, index) => (
+          <div
+            key={index}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDragIndex(index);
+            }}
+            onDragOver={(e) => {
+              e.preventDefault();
+              if (dropIndex !== index) setDropIndex(index);
+            }}
+            onDragLeave={() => setDropIndex(null)}
+            onDrop={(e) => handleDrop(e, index)}
+            onDragEnd={resetDrag}
+            onClick={() => onSelect(index)}
+            className={`group relative shrink-0 cursor-pointer rounded-lg p-1 transition-all
+              ${index === activeIndex ? 'ring-2 ring-blue-500 bg-blue-500/10' : 'ring-1 ring-white/10 hover:ring-white/30'}
+              ${dragIndex === index ? 'opacity-40' : ''}
+              ${dropIndex === index && dragIndex !== index ? 'ring-2 ring-emerald-400' : ''}
+            `}
+            title={`Slide ${index + 1}`}
+          >
+            <SlideThumbnail data={slide} canvas={canvas} />
+
+            <span className="absolute top-2 left-2 bg-black/70 text-white text-[10px] font-bold rounded px-1.5 py-0.5">
+              {index + 1}
+            </span>
+
+            <div className="absolute bottom-2 left-0 right-0 flex justify-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                onClick={(e) => { e.stopPropagation(); onDuplicate(index); }}
+                disabled={!canAdd}
+                className="bg-white/90 hover:bg-white text-gray-700 p-1 rounded shadow disabled:opacity-40 disabled:cursor-not-allowed"
+                title="Duplicar slide"
+              >
+                <Copy size={12} />
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onDelete(index); }}
+                disabled={!canDelete}
+                className="bg-white/90 hover:bg-red-50 text-red-600 p-1 rounded shadow disabled:opacity-40 disabled:cursor-not-allowed"
+                title="Excluir slide"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          </div>
+        ))}
+
+        <button
+          onClick={onAdd}
+          disabled={!canAdd}
+          className="shrink-0 flex flex-col items-center justify-center gap-1 rounded-lg border-2 border-dashed border-white/20 hover:border-blue-400 text-slate-400 hover:text-blue-400 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+          style={{ width: `${THUMB_HEIGHT * canvas.width / canvas.height + 8}px`, height: `${THUMB_HEIGHT + 8}px` }}
+          title={canAdd ? 'Novo slide' : `Máximo de ${maxSlides} slides`}
+        >
+          <Plus size={20} />
+          <span className="text-[10px] font-semibold uppercase">Novo</span>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,213 @@
+
+import React, { useState } from 'react';
+import { X, LayoutTemplate, Loader2, Trash2, Minus, Plus, Save, AlertCircle } from 'lucide-react';
+import { CardTemplate, CanvasFormat, TweetData } from '../types';
+import { CARD_TEMPLATES, DEFAULT_TEMPLATE_CONTENT_SLIDES, MAX_SLIDES, getCanvasFormat } from '../constants';
+import { getTemplateSlideCount, getTemplateSlides } from '../services/templates';
+import { TweetCard } from './TweetCard';
+
+interface TemplateGalleryProps {
+  author: TweetData; // The active slide, whose author the previews and applied templates keep
+  canvas: CanvasFormat; // The project's format, used by templates that don't set their own
+  projectName: string;
+  templates: CardTemplate[]; // The user's saved templates
+  isLoading: boolean;
+  error: string | null;
+  onApply: (template: CardTemplate, contentSlides: number) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_HEIGHT = 220;
+
+const noop = () => {};
+
+// Read-only first slide of a template, rendered with the same TweetCard as the preview
+const TemplatePreview = ({ data, canvas }: { data: TweetData, canvas: CanvasFormat }) => {
+  const previewScale = PREVIEW_HEIGHT / canvas.height;
+  return (
+    <div
+      className="overflow-hidden rounded-md pointer-events-none shadow-sm"
+      style={{ width: `${canvas.width * previewScale}px`, height: `${PREVIEW_HEIGHT}px` }}
+    >
+      <div style={{ transform: `scale(${previewScale})`, transformOrigin: 'top left' }}>
+        <TweetCard
+          data={data}
+          canvas={canvas}
+          onMouseDown={noop}
+          onTouchStart={noop}
+          onResizeStart={noop}
+          onDoubleClick={noop}
+          editingField={null}
+          onEditChange={noop}
+          onEditBlur={noop}
+        />
+      </div>
+    </div>
+  );
+};
+
+export const TemplateGallery: React.FC<TemplateGalleryProps> = ({
+  author,
+  canvas,
+  projectName,
+  templates,
+  isLoading,
+  error,
+  onApply,
+  onSave,
+  onDelete,
+  onClose
+}) => {
+  const [contentSlides, setContentSlides] = useState(DEFAULT_TEMPLATE_CONTENT_SLIDES);
+  const [templateName, setTemplateName] = useState(projectName);
+
+  // Cover and CTA take two of the carousel's slides
+  const maxContentSlides = MAX_SLIDES - 2;
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (templateName.trim()) onSave(templateName.trim());
+  };
+
+  const handleDelete = (template: CardTemplate) => {
+    if (window.confirm(`Excluir o modelo "${template.name}"? Essa ação não pode ser desfeita.`)) {
+      onDelete(template.id);
+    }
+  };
+
+  const templateCard = (template: CardTemplate, isSaved: boolean) => {
+    const templateCanvas = template.canvasFormat ? getCanvasFormat(template.canvasFormat) : canvas;
+    const slideCount = getTemplateSlideCount(template, contentSlides);
+    return (
+      <div key={template.id} className="group rounded-xl border border-gray-200 hover:border-blue-500 bg-gray-50 overflow-hidden transition-colors">
+        <button
+          onClick={() => onApply(template, contentSlides)}
+          className="w-full flex justify-center bg-slate-100 py-3"
+          title={template.kind === 'card' ? 'Usar no slide atual' : 'Substituir os slides do projeto'}
+        >
+          <TemplatePreview data={getTemplateSlides(template, author, 1)[0]} canvas={templateCanvas} />
+        </button>
+        <div className="p-3 flex items-start gap-2">
+          <div className="flex-1 min-w-0 space-y-0.5">
+            <p className="text-sm font-semibold text-gray-900 truncate" title={template.name}>{template.name}</p>
+            <p className="text-[11px] text-gray-500 leading-snug">{template.description}</p>
+            {template.kind === 'carousel' && (
+              <p className="text-[11px] text-gray-400">{slideCount} {slideCount === 1 ? 'slide' : 'slides'}{template.canvasFormat && ` · ${template.canvasFormat}`}</p>
+            )}
+          </div>
+          {isSaved && (
+            <button onClick={() => handleDelete(template)} className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-white rounded transition-colors" title="Excluir modelo">
+              <Trash2 size={14} />
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const sectionTitle = "text-[11px] font-bold text-gray-500 uppercase tracking-widest";
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-950/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[85dvh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center gap-2">
+            <LayoutTemplate size={18} className="text-blue-600" />
+            <h2 className="text-lg font-bold text-gray-900">Modelos</h2>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-900 rounded-lg transition-colors" title="Fechar">
+            <X size={18} />
+          </button>
+        </div>
+
+        {error && (
+          <p className="mx-6 mt-4 text-xs text-red-600 bg-red-50 p-2 rounded border border-red-100 flex items-center gap-1">
+            <AlertCircle size={12} className="shrink-0" /> {error}
+          </p>
+        )}
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-8">
+          <section className="space-y-3">
+            <div>
+              <h3 className={sectionTitle}>Layouts de card</h3>
+              <p className="text-xs text-gray-500 mt-1">Substituem o slide atual, mantendo o autor.</p>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              {CARD_TEMPLATES.filter(template => template.kind === 'card').map(template => templateCard(template, false))}
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <div className="flex items-end justify-between gap-4">
+              <div>
+                <h3 className={sectionTitle}>Carrosséis</h3>
+                <p className="text-xs text-gray-500 mt-1">Capa, slides de conteúdo e CTA. Substituem todos os slides do projeto.</p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className="text-xs text-gray-500 font-medium">Slides de conteúdo</span>
+                <div className="flex items-center bg-gray-100 p-1 rounded-lg">
+                  <button
+                    onClick={() => setContentSlides(count => Math.max(1, count - 1))}
+                    disabled={contentSlides <= 1}
+                    className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30 transition-colors"
+                    title="Menos slides"
+                  >
+                    <Minus size={12} />
+                  </button>
+                  <span className="w-6 text-center text-xs font-semibold text-gray-800 tabular-nums">{contentSlides}</span>
+                  <button
+                    onClick={() => setContentSlides(count => Math.min(maxContentSlides, count + 1))}
+                    disabled={contentSlides >= maxContentSlides}
+                    className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30 transition-colors"
+                    title="Mais slides"
+                  >
+                    <Plus size={12} />
+                  </button>
+                </div>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+              {CARD_TEMPLATES.filter(template => template.kind === 'carousel').map(template => templateCard(template, false))}
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <div>
+              <h3 className={sectionTitle}>Meus modelos</h3>
+              <p className="text-xs text-gray-500 mt-1">Guarde o carrossel atual, com formato, fundos, fontes e textos, para começar outros projetos a partir dele.</p>
+            </div>
+            <form onSubmit={handleSave} className="flex gap-2">
+              <input
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                placeholder="Nome do modelo"
+                className="flex-1 bg-white border border-gray-200 text-gray-900 rounded-lg px-3 py-2 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none text-xs placeholder-gray-400 shadow-sm"
+              />
+              <button
+                type="submit"
+                disabled={!templateName.trim()}
+                className="flex items-center gap-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white text-xs font-semibold px-3 py-2 rounded-lg transition-colors shadow-sm"
+              >
+                <Save size={14} />
+                Salvar carrossel atual
+              </button>
+            </form>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8 text-gray-400">
+                <Loader2 size={20} className="animate-spin" />
+              </div>
+            ) : templates.length === 0 ? (
+              <p className="text-center text-sm text-gray-500 py-8">Nenhum modelo salvo ainda.</p>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                {templates.map(template => templateCard(template, true))}
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+
+import React from 'react';
+import { AlertTriangle, RotateCcw } from 'lucide-react';
+import { TweetData, TextTone } from '../types';
+import { backgroundContrast, getCardTheme, MIN_TEXT_CONTRAST, MIN_ACCENT_CONTRAST, CardTheme } from '../services/cardTheme';
+
+interface TextColorPanelProps {
+  data: TweetData;
+  onOptionChange: (patch: Partial<TweetData>) => void; // One undo step per change
+  onFieldChange: (patch: Partial<TweetData>) => void; // Dragging a color picker; history is saved on blur
+  onFieldFocus: () => void;
+  onFieldBlur: (field: keyof TweetData) => void;
+}
+
+type ColorField = 'nameColor' | 'handleColor' | 'bodyColor' | 'accentColor';
+
+const TONES: { id: TextTone; label: string }[] = [
+  { id: 'auto', label: 'Automático' },
+  { id: 'dark', label: 'Escuro' },
+  { id: 'light', label: 'Claro' },
+];
+
+const COLOR_FIELDS: { id: ColorField; themeKey: keyof Omit<CardTheme, 'isDark'>; label: string; minContrast: number }[] = [
+  { id: 'nameColor', themeKey: 'name', label: 'Nome', minContrast: MIN_TEXT_CONTRAST },
+  { id: 'handleColor', themeKey: 'handle', label: '@ e detalhes', minContrast: MIN_TEXT_CONTRAST },
+  { id: 'bodyColor', themeKey: 'body', label: 'Texto', minContrast: MIN_TEXT_CONTRAST },
+  { id: 'accentColor', themeKey: 'accent', label: 'Links e menções', minContrast: MIN_ACCENT_CONTRAST },
+];
+
+const chipClass = (isActive: boolean) => `flex-1 py-1.5 text-xs font-semibold rounded-md transition-colors ${isActive ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-800'}`;
+
+export const TextColorPanel: React.FC<TextColorPanelProps> = ({ data, onOptionChange, onFieldChange, onFieldFocus, onFieldBlur }) => {
+  const theme = getCardTheme(data);
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-xl border border-gray-200 space-y-3 shadow-sm">
+      <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+        {TONES.map((tone) => (
+          <button key={tone.id} onClick={() => tone.id !== data.textTone && onOptionChange({ textTone: tone.id })} className={chipClass(data.textTone === tone.id)}>
+            {tone.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        {COLOR_FIELDS.map((field) => {
+          const color = theme[field.themeKey];
+          const isCustom = data[field.id] !== null;
+          const contrast = backgroundContrast(color, data.background);
+          const isLowContrast = contrast < field.minContrast;
+          return (
+            <div key={field.id} className="flex items-center gap-2">
+              <input
+                type="color"
+                value={color}
+                onFocus={onFieldFocus}
+                onBlur={() => onFieldBlur(field.id)}
+                onChange={(e) => onFieldChange({ [field.id]: e.target.value.toUpperCase() })}
+                className="h-7 w-9 rounded border border-gray-200 bg-white cursor-pointer shrink-0"
+              />
+              <span className="flex-1 text-xs text-gray-600 font-medium">
+                {field.label}
+                {!isCustom && <span className="text-gray-400 font-normal"> · automática</span>}
+              </span>
+              <span
+                className={`flex items-center gap-1 text-[10px] font-mono ${isLowContrast ? 'text-amber-600' : 'text-gray-400'}`}
+                title={isLowContrast ? `Abaixo do mínimo recomendado (${field.minContrast}:1) para leitura` : 'Contraste com o fundo'}
+              >
+                {isLowContrast && <AlertTriangle size={11} />}
+                {contrast.toFixed(1)}:1
+              </span>
+              <button
+                onClick={() => onOptionChange({ [field.id]: null })}
+                disabled={!isCustom}
+                className="p-1 text-gray-400 hover:text-blue-600 disabled:opacity-30 disabled:hover:text-gray-400 transition-colors"
+                title="Voltar à cor automática"
+              >
+                <RotateCcw size={12} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-[10px] text-gray-400 leading-relaxed">
+        Cores automáticas seguem o contraste mínimo WCAG AA com o fundo: {MIN_TEXT_CONTRAST}:1 para o texto e {MIN_ACCENT_CONTRAST}:1 para links e menções.
+      </p>
+    </div>
+  );
+};
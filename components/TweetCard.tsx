@@ -1,24 +1,40 @@
 
-import React, { useEffect, useRef } from 'react';
-import { TweetData, Guideline } from '../types';
+import React, { useEffect, useLayoutEffect, useReducer, useRef, useState } from 'react';
+import { TweetData, Guideline, CanvasFormat, CardTarget, CardLayer, EmbeddedTweet, TweetMedia, CardBackground, TextStyle } from '../types';
 import { VerifiedBadge } from './VerifiedBadge';
+import { TweetText } from './TweetText';
+import { CONTENT_FONT_SIZE, CONTENT_LINE_HEIGHT, AUTO_FIT_MIN_FONT_SIZE, AUTO_FIT_MAX_FONT_SIZE } from '../constants';
+import { measureTweet, TWEET_CHAR_LIMITS } from '../services/tweetText';
+import { CARD_LABELS, formatCompactNumber, formatPostedAt } from '../services/cardFormat';
+import { resolveImageUrl } from '../services/assetStore';
+import { backgroundToCss } from '../services/cardBackground';
+import { CardTheme, getCardTheme } from '../services/cardTheme';
+import { getFontStack, textStyleToCss } from '../services/cardFonts';
+import { getLayerTarget } from '../services/cardLayers';
+import { MessageCircle, Repeat2, Heart, Bookmark, Share, ArrowRight } from 'lucide-react';
 
 interface TweetCardProps {
   data: TweetData;
-  onMouseDown: (e: React.MouseEvent, element: 'header' | 'content' | 'tweetImage') => void;
-  onTouchStart: (e: React.TouchEvent, element: 'header' | 'content' | 'tweetImage') => void;
-  onResizeStart: (e: React.MouseEvent | React.TouchEvent, element: 'header' | 'content' | 'tweetImage', handle: string) => void;
+  canvas: CanvasFormat;
+  onMouseDown: (e: React.MouseEvent, element: CardTarget) => void;
+  onTouchStart: (e: React.TouchEvent, element: CardTarget) => void;
+  onResizeStart: (e: React.MouseEvent | React.TouchEvent, element: CardTarget, handle: string) => void; // handle is a corner ('nw', 'ne', 'se', 'sw') or 'rotate'
   onDoubleClick: (element: 'displayName' | 'handle' | 'content') => void;
   editingField: 'displayName' | 'handle' | 'content' | null;
   onEditChange: (value: string) => void;
   onEditBlur: () => void;
   guidelines?: Guideline[];
+  charLimit?: number; // Shown as a counter while editing the content inline
+  onOverflowChange?: (isOverflowing: boolean) => void; // Called when the body text starts or stops running past the card
+  transparentBackground?: boolean; // Used by exports that composite the card elsewhere
+  selectedLayerId?: string | null; // Outlined on the card while it's selected in the layers panel
 }
 
-// Helper component for Resize Handles
-const ResizeHandles = ({ onResizeStart, element }: { 
-  onResizeStart: (e: React.MouseEvent | React.TouchEvent, element: 'header' | 'content' | 'tweetImage', handle: string) => void, 
-  element: 'header' | 'content' | 'tweetImage' 
+// Helper component for Resize Handles, plus a rotation handle above the top edge for layers
+const ResizeHandles = ({ onResizeStart, element, rotatable = false }: { 
+  onResizeStart: (e: React.MouseEvent | React.TouchEvent, element: CardTarget, handle: string) => void, 
+  element: CardTarget,
+  rotatable?: boolean
 }) => {
   const handleStyle = "absolute w-6 h-6 bg-blue-500 border-2 border-white rounded-full shadow-lg z-50 pointer-events-auto transform transition-transform hover:scale-125 active:scale-110 touch-none";
   
@@ -52,10 +68,20 @@ const ResizeHandles = ({ onResizeStart, element }: {
         onMouseDown={(e) => handleInteraction(e, 'se')}
         onTouchStart={(e) => handleInteraction(e, 'se')}
       />
+      {rotatable && (
+        <div 
+          className={`${handleStyle} -top-16 left-1/2 -ml-3 cursor-grab opacity-0 group-hover:opacity-100 transition-opacity`}
+          onMouseDown={(e) => handleInteraction(e, 'rotate')}
+          onTouchStart={(e) => handleInteraction(e, 'rotate')}
+        />
+      )}
     </>
   );
 };
 
+// Matches the body's mb-8, which auto-fit keeps clear above the image
+const CONTENT_MARGIN_BOTTOM = 32;
+
 // Helper for Auto-Focus Textarea/Input
 const AutoFocusInput = ({ value, onChange, onBlur, style, className, isTextArea = false }: any) => {
   const ref = useRef<any>(null);
@@ -97,8 +123,274 @@ const AutoFocusInput = ({ value, onChange, onBlur, style, className, isTextArea
   );
 };
 
+// Weighted X character count, drawn at card scale under the inline editor
+const CharCounter = ({ text, limit }: { text: string, limit: number }) => {
+  const { weightedLength } = measureTweet(text, limit);
+  const isOver = weightedLength > limit;
+  return (
+    <div
+      className={`absolute right-0 -bottom-16 px-4 py-1 rounded-full font-semibold tabular-nums pointer-events-none ${isOver ? 'bg-red-500 text-white' : 'bg-blue-500 text-white'}`}
+      style={{ fontSize: '32px' }}
+    >
+      {isOver ? `-${(weightedLength - limit).toLocaleString('pt-BR')}` : `${weightedLength.toLocaleString('pt-BR')} / ${limit.toLocaleString('pt-BR')}`}
+    </div>
+  );
+};
+
+// Name, badge and handle row shared by quoted tweets and thread replies, in the header's font
+const EmbeddedAuthor = ({ tweet, theme, headerFont, fontSize }: { tweet: EmbeddedTweet, theme: CardTheme, headerFont: TextStyle, fontSize: number }) => (
+  <div className="flex items-center gap-3 min-w-0" style={{ fontSize: `${fontSize}px`, lineHeight: '1.2', fontFamily: getFontStack(headerFont.font), fontWeight: 400, letterSpacing: 'normal' }}>
+    <span className="truncate" style={{ ...textStyleToCss(headerFont), color: theme.name }}>{tweet.displayName}</span>
+    {tweet.badge !== 'none' && (
+      <span className="flex-shrink-0" style={{ width: `${fontSize * 0.85}px`, height: `${fontSize * 0.85}px` }}>
+        <VerifiedBadge variant={tweet.badge} />
+      </span>
+    )}
+    <span className="truncate" style={{ color: theme.handle }}>{tweet.handle}</span>
+  </div>
+);
+
+// Bordered mini tweet below the body, as X draws a quote post
+const QuotedTweet = ({ tweet, theme, headerFont, onImageLoad }: { tweet: EmbeddedTweet, theme: CardTheme, headerFont: TextStyle, onImageLoad: () => void }) => (
+  <div
+    className="rounded-[48px] overflow-hidden"
+    style={{ border: `3px solid ${theme.isDark ? 'rgba(255,255,255,0.2)' : 'rgba(15,20,25,0.15)'}` }}
+  >
+    <div className="p-10 space-y-5">
+      <div className="flex items-center gap-4">
+        <img src={resolveImageUrl(tweet.avatarUrl)} alt="" className="rounded-full object-cover pointer-events-none flex-shrink-0" style={{ width: '72px', height: '72px' }} />
+        <EmbeddedAuthor tweet={tweet} theme={theme} headerFont={headerFont} fontSize={46} />
+      </div>
+      <p className="whitespace-pre-wrap" style={{ fontSize: '56px', lineHeight: 1.25, color: theme.body }}>
+        <TweetText content={tweet.content} accentColor={theme.accent} />
+      </p>
+    </div>
+    {tweet.image && (
+      <img src={resolveImageUrl(tweet.image)} alt="" onLoad={onImageLoad} className="w-full object-cover pointer-events-none max-h-[600px]" />
+    )}
+  </div>
+);
+
+// Replies stacked under the main tweet, with the thread line joining the avatars
+const ThreadReplies = ({ replies, theme, headerFont }: { replies: EmbeddedTweet[], theme: CardTheme, headerFont: TextStyle }) => {
+  const lineColor = theme.isDark ? 'rgba(255,255,255,0.25)' : 'rgba(15,20,25,0.2)';
+  return (
+    <div>
+      {replies.map((reply, index) => (
+        <div key={index} className="flex gap-8 items-stretch">
+          <div className="flex flex-col items-center flex-shrink-0" style={{ width: '112px' }}>
+            <div style={{ width: '6px', height: '40px', background: lineColor }} />
+            <img src={resolveImageUrl(reply.avatarUrl)} alt="" className="rounded-full object-cover pointer-events-none" style={{ width: '112px', height: '112px' }} />
+            {index < replies.length - 1 && <div className="flex-1" style={{ width: '6px', background: lineColor }} />}
+          </div>
+          <div className="flex-1 min-w-0 pt-12 pb-10 space-y-3">
+            <EmbeddedAuthor tweet={reply} theme={theme} headerFont={headerFont} fontSize={48} />
+            <p className="whitespace-pre-wrap" style={{ fontSize: '60px', lineHeight: 1.25, color: theme.body }}>
+              <TweetText content={reply.content} accentColor={theme.accent} />
+            </p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Crops each image around its focal point
+const focalPosition = (media: TweetMedia) => `${media.focalPoint.x * 100}% ${media.focalPoint.y * 100}%`;
+
+// Attached images as X lays them out: one at its own aspect ratio, or 2 to 4 in a 16:9 grid
+const MediaGrid = ({ images, onImageLoad }: { images: TweetMedia[], onImageLoad: () => void }) => {
+  if (images.length === 1) {
+    const [media] = images;
+    return (
+      <img
+        src={resolveImageUrl(media.src)}
+        alt={media.alt}
+        onLoad={onImageLoad}
+        className="w-full h-auto rounded-3xl border border-gray-100/10 shadow-sm pointer-events-none object-cover max-h-[800px]"
+        style={{ objectPosition: focalPosition(media) }}
+      />
+    );
+  }
+
+  // Two side by side, one tall plus two stacked, or 2×2
+  return (
+    <div className={`grid grid-cols-2 ${images.length === 2 ? 'grid-rows-1' : 'grid-rows-2'} gap-1.5 w-full aspect-video rounded-3xl overflow-hidden border border-gray-100/10 shadow-sm pointer-events-none`}>
+      {images.map((media, index) => (
+        <img
+          key={index}
+          src={resolveImageUrl(media.src)}
+          alt={media.alt}
+          onLoad={onImageLoad}
+          className={`w-full h-full min-h-0 object-cover ${images.length === 3 && index === 0 ? 'row-span-2' : ''}`}
+          style={{ objectPosition: focalPosition(media) }}
+        />
+      ))}
+    </div>
+  );
+};
+
+// Blurred, dimmed photo behind the card's contents. Positioned inline: the export filter drops `absolute` classes.
+const BackgroundImageLayer = ({ background }: { background: Extract<CardBackground, { type: 'image' }> }) => (
+  <div style={{ position: 'absolute', inset: 0, zIndex: -1, overflow: 'hidden', pointerEvents: 'none' }}>
+    <div
+      style={{
+        position: 'absolute',
+        // Bleed past the edges so the blur doesn't fade into the border
+        inset: `-${background.blur * 2}px`,
+        backgroundImage: `url("${resolveImageUrl(background.src)}")`,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+        filter: background.blur > 0 ? `blur(${background.blur}px)` : undefined,
+      }}
+    />
+    {background.dim > 0 && <div style={{ position: 'absolute', inset: 0, background: `rgba(0, 0, 0, ${background.dim})` }} />}
+  </div>
+);
+
+// Date line and action row of a tweet's detail view, in the card's locale
+const EngagementFooter = ({ data, theme }: { data: TweetData, theme: CardTheme }) => {
+  const { engagement, locale } = data;
+  const labels = CARD_LABELS[locale];
+  const dividerColor = theme.isDark ? 'rgba(255,255,255,0.15)' : 'rgba(15,20,25,0.12)';
+  const strongColor = theme.body;
+
+  const dateLine = [formatPostedAt(data.postedAt, locale), data.source].filter(Boolean);
+  const actions = [
+    { icon: MessageCircle, count: engagement.replies },
+    { icon: Repeat2, count: engagement.reposts },
+    { icon: Heart, count: engagement.likes },
+    { icon: Bookmark, count: engagement.bookmarks },
+  ];
+
+  return (
+    <div style={{ fontSize: '38px', lineHeight: '1.2' }}>
+      <div className="pb-8" style={{ borderBottom: `2px solid ${dividerColor}` }}>
+        {dateLine.join(' · ')}
+        {engagement.views > 0 && (
+          <>
+            {dateLine.length > 0 && ' · '}
+            <span className="font-bold" style={{ color: strongColor }}>{formatCompactNumber(engagement.views, locale)}</span> {labels.views}
+          </>
+        )}
+      </div>
+      <div className="flex items-center justify-between pt-8">
+        {actions.map(({ icon: Icon, count }, index) => (
+          <span key={index} className="flex items-center gap-3">
+            <Icon size={48} strokeWidth={1.75} />
+            {count > 0 && <span>{formatCompactNumber(count, locale)}</span>}
+          </span>
+        ))}
+        <Share size={48} strokeWidth={1.75} />
+      </div>
+    </div>
+  );
+};
+
+// --- Layers ---
+
+// Straight and curved arrows pointing right, drawn in a 360×140 box
+const ARROW_PATHS = {
+  straight: { line: 'M 20 70 H 330', head: '290 30 335 70 290 110' },
+  curved: { line: 'M 20 110 C 120 10, 230 10, 330 70', head: '305 14 330 70 269 74' },
+};
+
+const LayerContent = ({ layer, data, theme }: { layer: CardLayer, data: TweetData, theme: CardTheme }) => {
+  switch (layer.type) {
+    case 'text':
+      return (
+        <div
+          style={{
+            ...textStyleToCss(layer.textStyle === 'header' ? data.headerFont : data.bodyFont),
+            fontSize: `${layer.fontSize}px`,
+            lineHeight: 1.15,
+            whiteSpace: 'pre',
+            color: layer.color ?? theme.body,
+            background: layer.background ?? undefined,
+            padding: layer.background ? '0.2em 0.5em' : undefined,
+            borderRadius: '0.3em',
+          }}
+        >
+          {layer.text}
+        </div>
+      );
+    case 'sticker':
+      return <div style={{ fontSize: '160px', lineHeight: 1 }}>{layer.emoji}</div>;
+    case 'arrow': {
+      const paths = ARROW_PATHS[layer.style];
+      return (
+        <svg width="360" height="140" viewBox="0 0 360 140" fill="none" stroke={layer.color ?? theme.accent} strokeWidth="14" strokeLinecap="round" strokeLinejoin="round" style={{ display: 'block' }}>
+          <path d={paths.line} />
+          <polyline points={paths.head} />
+        </svg>
+      );
+    }
+    case 'shape':
+      return (
+        <div
+          style={{
+            width: `${layer.width}px`,
+            height: `${layer.height}px`,
+            background: layer.shape === 'highlight' ? layer.color : undefined,
+            border: layer.shape === 'highlight' ? undefined : `12px solid ${layer.color}`,
+            borderRadius: layer.shape === 'ellipse' ? '50%' : layer.shape === 'rectangle' ? '24px' : '16px',
+          }}
+        />
+      );
+    case 'swipe':
+      return (
+        <div
+          className="flex items-center gap-4 rounded-full whitespace-nowrap"
+          style={{ ...textStyleToCss(data.headerFont), fontSize: '48px', lineHeight: 1, padding: '24px 40px', background: layer.color ?? theme.accent, color: '#FFFFFF' }}
+        >
+          {layer.text}
+          <ArrowRight size={48} strokeWidth={3} />
+        </div>
+      );
+  }
+};
+
+// Layers sit over the whole card, padding included, in list order; hidden ones aren't drawn at all
+const CardLayers = ({ data, theme, selectedLayerId, onMouseDown, onTouchStart, onResizeStart }: {
+  data: TweetData,
+  theme: CardTheme,
+  selectedLayerId: string | null,
+  onMouseDown: TweetCardProps['onMouseDown'],
+  onTouchStart: TweetCardProps['onTouchStart'],
+  onResizeStart: TweetCardProps['onResizeStart'],
+}) => (
+  // Positioned inline: the export filter drops elements with an `absolute` class
+  <div style={{ position: 'absolute', inset: 0, pointerEvents: 'none' }}>
+    {data.layers.filter(layer => !layer.hidden).map((layer) => {
+      const target = getLayerTarget(layer.id);
+      return (
+        <div
+          key={layer.id}
+          className="group cursor-move touch-none"
+          onMouseDown={(e) => onMouseDown(e, target)}
+          onTouchStart={(e) => onTouchStart(e, target)}
+          style={{
+            position: 'absolute',
+            left: `${layer.position.x}px`,
+            top: `${layer.position.y}px`,
+            transform: `rotate(${layer.rotation}deg) scale(${layer.scale})`,
+            transformOrigin: 'center',
+            opacity: layer.opacity,
+            pointerEvents: layer.locked ? 'none' : 'auto',
+          }}
+        >
+          {layer.id === selectedLayerId && <div className="absolute -inset-2 border-4 border-blue-500 rounded-lg pointer-events-none" />}
+          {!layer.locked && <ResizeHandles onResizeStart={onResizeStart} element={target} rotatable />}
+          <LayerContent layer={layer} data={data} theme={theme} />
+        </div>
+      );
+    })}
+  </div>
+);
+
 export const TweetCard: React.FC<TweetCardProps> = ({ 
   data, 
+  canvas,
   onMouseDown, 
   onTouchStart, 
   onResizeStart, 
@@ -106,20 +398,85 @@ export const TweetCard: React.FC<TweetCardProps> = ({
   editingField,
   onEditChange,
   onEditBlur,
-  guidelines = [] 
+  guidelines = [],
+  charLimit = TWEET_CHAR_LIMITS.standard,
+  onOverflowChange,
+  transparentBackground = false,
+  selectedLayerId = null
 }) => {
-  const isDark = data.background === '#000000' || data.background === '#15202B' || data.background.includes('111827');
+  const theme = getCardTheme(data);
+  const labels = CARD_LABELS[data.locale];
+
+  const contentRef = useRef<HTMLDivElement>(null);
+  const textRef = useRef<HTMLParagraphElement>(null);
+  const imageRef = useRef<HTMLDivElement>(null);
+  const footerRef = useRef<HTMLDivElement>(null);
+  const embedsRef = useRef<HTMLDivElement>(null);
+  const isOverflowingRef = useRef<boolean | null>(null);
+  const [fitFontSize, setFitFontSize] = useState(CONTENT_FONT_SIZE);
+  const [imageLoads, handleImageLoad] = useReducer((count: number) => count + 1, 0);
+  const [fontLoads, handleFontLoad] = useReducer((count: number) => count + 1, 0);
+
+  // Text measured in a fallback font is re-fitted once the real font arrives
+  useEffect(() => {
+    document.fonts.addEventListener('loadingdone', handleFontLoad);
+    return () => document.fonts.removeEventListener('loadingdone', handleFontLoad);
+  }, []);
+
+  // Auto-fit sizes the text itself, so the manual scale is ignored
+  const contentScale = data.autoFitText ? 1 : data.contentScale;
+  const contentFontSize = data.autoFitText ? fitFontSize : CONTENT_FONT_SIZE;
+
+  // Binary search for the largest font size whose text fits between the body's top and the image below it
+  useLayoutEffect(() => {
+    const wrapper = contentRef.current;
+    const text = textRef.current;
+    if (!data.autoFitText || !wrapper || !text) return;
+
+    const imageHeight = imageRef.current ? imageRef.current.offsetHeight * data.tweetImageScale : 0;
+    const footerHeight = footerRef.current ? footerRef.current.offsetHeight * data.footerScale : 0;
+    const embedsHeight = embedsRef.current ? embedsRef.current.offsetHeight : 0;
+    const available = canvas.height - canvas.paddingY - wrapper.offsetTop - data.contentPosition.y - CONTENT_MARGIN_BOTTOM - imageHeight - footerHeight - embedsHeight;
+
+    let low = AUTO_FIT_MIN_FONT_SIZE;
+    let high = AUTO_FIT_MAX_FONT_SIZE + 1;
+    while (high - low > 1) {
+      const mid = Math.floor((low + high) / 2);
+      text.style.fontSize = `${mid}px`;
+      if (text.offsetHeight <= available) low = mid;
+      else high = mid;
+    }
+    // Set directly too: React skips the style update when the size didn't change
+    text.style.fontSize = `${low}px`;
+    setFitFontSize(low);
+  }, [data.autoFitText, data.content, data.displayName, data.handle, data.contentPosition.y, data.tweetImages, data.tweetImageScale, data.showFooter, data.footerScale, data.layout, data.quotedTweet, data.threadReplies, data.headerFont, data.bodyFont, canvas, editingField, imageLoads, fontLoads]);
+
+  // Report clipping after every layout; cheap, and catches drags, scaling and image loads alike
+  useLayoutEffect(() => {
+    const wrapper = contentRef.current;
+    if (!onOverflowChange || !wrapper) return;
+    const bottom = wrapper.offsetTop + data.contentPosition.y + wrapper.offsetHeight * contentScale;
+    const isOverflowing = bottom > canvas.height + 1;
+    if (isOverflowing !== isOverflowingRef.current) {
+      isOverflowingRef.current = isOverflowing;
+      onOverflowChange(isOverflowing);
+    }
+  });
   
   return (
     <div 
       className="text-black flex flex-col items-start relative overflow-hidden select-none shadow-2xl"
       style={{
-        width: '1080px',
-        height: '1440px', // 3:4 Aspect Ratio
-        padding: '120px 100px', // Generous padding
-        background: data.background
+        width: `${canvas.width}px`,
+        height: `${canvas.height}px`,
+        padding: `${canvas.paddingY}px ${canvas.paddingX}px`,
+        background: transparentBackground ? 'transparent' : backgroundToCss(data.background),
+        ...textStyleToCss(data.bodyFont), // Text outside the header defaults to the body style
+        isolation: 'isolate', // Keeps the background image layer above the card's own background
       }}
     >
+      {!transparentBackground && data.background.type === 'image' && <BackgroundImageLayer background={data.background} />}
+
       {/* Visual Alignment Guidelines Overlay */}
       {guidelines.map((guide, index) => (
         <div
@@ -145,6 +502,9 @@ export const TweetCard: React.FC<TweetCardProps> = ({
         style={{
           transform: `translate(${data.headerPosition.x}px, ${data.headerPosition.y}px) scale(${data.headerScale})`,
           transformOrigin: 'left center',
+          fontFamily: getFontStack(data.headerFont.font),
+          fontWeight: 400,
+          letterSpacing: 'normal',
         }}
       >
         <ResizeHandles onResizeStart={onResizeStart} element="header" />
@@ -152,7 +512,7 @@ export const TweetCard: React.FC<TweetCardProps> = ({
         {/* Avatar */}
         <div className="flex-shrink-0">
           <img 
-            src={data.avatarUrl} 
+            src={resolveImageUrl(data.avatarUrl)} 
             alt={data.displayName} 
             className="rounded-full object-cover pointer-events-none"
             style={{ width: '150px', height: '150px' }}
@@ -167,22 +527,32 @@ export const TweetCard: React.FC<TweetCardProps> = ({
                     value={data.displayName}
                     onChange={onEditChange}
                     onBlur={onEditBlur}
-                    style={{ fontSize: '56px', lineHeight: '1', color: isDark ? 'white' : '#0F1419' }}
-                    className="bg-transparent outline-none w-full font-bold tracking-tight p-0 m-0 border-b border-blue-500"
+                    style={{ ...textStyleToCss(data.headerFont), fontSize: '56px', lineHeight: '1', color: theme.name }}
+                    className="bg-transparent outline-none w-full p-0 m-0 border-b border-blue-500"
                 />
             ) : (
                 <span 
-                  className="font-bold tracking-tight cursor-text"
+                  className="cursor-text"
                   onDoubleClick={(e) => { e.stopPropagation(); onDoubleClick('displayName'); }}
-                  style={{ fontSize: '56px', lineHeight: '1', color: isDark ? 'white' : '#0F1419' }}
+                  style={{ ...textStyleToCss(data.headerFont), fontSize: '56px', lineHeight: '1', color: theme.name }}
                 > 
                   {data.displayName}
                 </span>
             )}
             
-            <div style={{ width: '42px', height: '42px', display: 'flex', alignItems: 'center' }}>
-               <VerifiedBadge />
-            </div>
+            {data.badge !== 'none' && (
+              <div style={{ width: '42px', height: '42px', display: 'flex', alignItems: 'center', flexShrink: 0 }}>
+                 {data.badge === 'custom'
+                   ? data.badgeIconUrl && <img src={resolveImageUrl(data.badgeIconUrl)} alt="" className="w-full h-full object-contain pointer-events-none" />
+                   : <VerifiedBadge variant={data.badge} />}
+              </div>
+            )}
+
+            {data.isPromoted && (
+              <span className="ml-auto whitespace-nowrap" style={{ fontSize: '34px', lineHeight: '1', color: theme.handle }}>
+                {labels.promoted}
+              </span>
+            )}
           </div>
 
           {editingField === 'handle' ? (
@@ -190,16 +560,23 @@ export const TweetCard: React.FC<TweetCardProps> = ({
                   value={data.handle}
                   onChange={onEditChange}
                   onBlur={onEditBlur}
-                  style={{ fontSize: '42px', lineHeight: '1.2', color: isDark ? '#9CA3AF' : '#536471' }}
+                  style={{ fontSize: '42px', lineHeight: '1.2', color: theme.handle }}
                   className="bg-transparent outline-none w-full p-0 m-0 border-b border-blue-500"
               />
           ) : (
               <span 
                 className="cursor-text"
                 onDoubleClick={(e) => { e.stopPropagation(); onDoubleClick('handle'); }}
-                style={{ fontSize: '42px', lineHeight: '1.2', color: isDark ? '#9CA3AF' : '#536471' }}
+                style={{ fontSize: '42px', lineHeight: '1.2', color: theme.handle }}
               >
                 {data.handle}
+                {data.timestamp && <span className="cursor-default"> · {data.timestamp}</span>}
+              </span>
+          )}
+
+          {data.replyingTo && (
+              <span style={{ fontSize: '38px', lineHeight: '1.2', color: theme.handle }}>
+                {labels.replyingTo} <span style={{ color: theme.accent }}>{data.replyingTo}</span>
               </span>
           )}
         </div>
@@ -207,51 +584,63 @@ export const TweetCard: React.FC<TweetCardProps> = ({
 
       {/* Tweet Body (Moveable & Scalable) */}
       <div 
+        ref={contentRef}
         className="group relative flex-shrink-0 w-full cursor-move touch-none rounded-lg mb-8"
         onMouseDown={(e) => onMouseDown(e, 'content')}
         onTouchStart={(e) => onTouchStart(e, 'content')}
         style={{
-            transform: `translate(${data.contentPosition.x}px, ${data.contentPosition.y}px) scale(${data.contentScale})`,
+            transform: `translate(${data.contentPosition.x}px, ${data.contentPosition.y}px) scale(${contentScale})`,
             transformOrigin: 'left top',
         }}
       >
-        <ResizeHandles onResizeStart={onResizeStart} element="content" />
+        {!data.autoFitText && <ResizeHandles onResizeStart={onResizeStart} element="content" />}
         
         {editingField === 'content' ? (
+          <>
             <AutoFocusInput 
                 isTextArea
                 value={data.content}
                 onChange={onEditChange}
                 onBlur={onEditBlur}
                 style={{ 
-                    fontSize: '92px', 
-                    lineHeight: '1.15', 
-                    letterSpacing: '-0.02em',
-                    color: isDark ? 'white' : '#0F1419',
+                    fontSize: `${contentFontSize}px`, 
+                    lineHeight: CONTENT_LINE_HEIGHT, 
+                    color: theme.body,
                     height: 'auto',
                     minHeight: '200px'
                 }}
-                className="bg-transparent outline-none w-full whitespace-pre-wrap font-normal resize-none overflow-hidden border border-blue-500/50 rounded p-2"
+                className="bg-transparent outline-none w-full whitespace-pre-wrap resize-none overflow-hidden border border-blue-500/50 rounded p-2"
             />
+            <CharCounter text={data.content} limit={charLimit} />
+          </>
         ) : (
             <p 
-              className="whitespace-pre-wrap font-normal text-left cursor-text"
+              ref={textRef}
+              className="whitespace-pre-wrap text-left cursor-text"
               onDoubleClick={(e) => { e.stopPropagation(); onDoubleClick('content'); }}
               style={{ 
-                fontSize: '92px', 
-                lineHeight: '1.15', 
-                letterSpacing: '-0.02em',
-                color: isDark ? 'white' : '#0F1419'
+                fontSize: `${contentFontSize}px`, 
+                lineHeight: CONTENT_LINE_HEIGHT, 
+                color: theme.body
               }}
             >
-              {data.content}
+              <TweetText content={data.content} accentColor={theme.accent} />
             </p>
         )}
+
+        {data.layout !== 'single' && (
+          <div ref={embedsRef} className="pt-12">
+            {data.layout === 'quote'
+              ? <QuotedTweet tweet={data.quotedTweet} theme={theme} headerFont={data.headerFont} onImageLoad={handleImageLoad} />
+              : <ThreadReplies replies={data.threadReplies} theme={theme} headerFont={data.headerFont} />}
+          </div>
+        )}
       </div>
 
-      {/* Tweet Image Section (Draggable & Scalable) */}
-      {data.tweetImage && (
+      {/* Tweet Media Grid (Draggable & Scalable as one element) */}
+      {data.tweetImages.length > 0 && (
         <div
+            ref={imageRef}
             className="group relative cursor-move touch-none rounded-2xl"
             onMouseDown={(e) => onMouseDown(e, 'tweetImage')}
             onTouchStart={(e) => onTouchStart(e, 'tweetImage')}
@@ -264,13 +653,39 @@ export const TweetCard: React.FC<TweetCardProps> = ({
             }}
         >
              <ResizeHandles onResizeStart={onResizeStart} element="tweetImage" />
-             <img 
-                src={data.tweetImage}
-                alt="Tweet attachment"
-                className="w-full h-auto rounded-3xl border border-gray-100/10 shadow-sm pointer-events-none object-cover max-h-[800px]"
-             />
+             <MediaGrid images={data.tweetImages} onImageLoad={handleImageLoad} />
         </div>
       )}
+
+      {/* Engagement Footer (Draggable & Scalable) */}
+      {data.showFooter && (
+        <div
+            ref={footerRef}
+            className="group relative flex-shrink-0 w-full cursor-move touch-none rounded-lg mt-10"
+            onMouseDown={(e) => onMouseDown(e, 'footer')}
+            onTouchStart={(e) => onTouchStart(e, 'footer')}
+            style={{
+                transform: `translate(${data.footerPosition.x}px, ${data.footerPosition.y}px) scale(${data.footerScale})`,
+                transformOrigin: 'left top',
+                color: theme.handle,
+            }}
+        >
+            <ResizeHandles onResizeStart={onResizeStart} element="footer" />
+            <EngagementFooter data={data} theme={theme} />
+        </div>
+      )}
+
+      {/* Free-form Layers (Draggable, Scalable & Rotatable) */}
+      {data.layers.length > 0 && (
+        <CardLayers
+          data={data}
+          theme={theme}
+          selectedLayerId={selectedLayerId}
+          onMouseDown={onMouseDown}
+          onTouchStart={onTouchStart}
+          onResizeStart={onResizeStart}
+        />
+      )}
       
     </div>
   );
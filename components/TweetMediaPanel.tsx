@@ -0,0 +1,107 @@
+
+import React, { useState } from 'react';
+import { X, Crosshair, Crop } from 'lucide-react';
+import { TweetData, TweetMedia } from '../types';
+import { MAX_TWEET_IMAGES } from '../constants';
+import { resolveImageUrl } from '../services/assetStore';
+
+interface TweetMediaPanelProps {
+  data: TweetData;
+  onOptionChange: (patch: Partial<TweetData>) => void; // One undo step per change
+  onFieldChange: (patch: Partial<TweetData>) => void; // Typing; history is saved on blur
+  onFieldFocus: () => void;
+  onFieldBlur: (field: keyof TweetData) => void;
+  onEditImage: (index: number) => void; // Opens the crop and adjustments dialog
+}
+
+// X's limit for image descriptions
+const MAX_ALT_LENGTH = 1000;
+
+const inputClass = "w-full bg-white border border-gray-200 text-gray-900 rounded-lg px-3 py-2 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none text-xs placeholder-gray-400 shadow-sm";
+
+export const TweetMediaPanel: React.FC<TweetMediaPanelProps> = ({ data, onOptionChange, onFieldChange, onFieldFocus, onFieldBlur, onEditImage }) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const images = data.tweetImages;
+  const index = Math.min(selectedIndex, images.length - 1);
+  const selected = images[index];
+
+  const updateImage = (patch: Partial<TweetMedia>) =>
+    images.map((media, i) => i === index ? { ...media, ...patch } : media);
+
+  const handleFocalPointClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height));
+    onOptionChange({ tweetImages: updateImage({ focalPoint: { x, y } }) });
+  };
+
+  const handleRemove = (removeIndex: number) => {
+    onOptionChange({ tweetImages: images.filter((_, i) => i !== removeIndex) });
+    if (removeIndex < selectedIndex) setSelectedIndex(selectedIndex - 1);
+  };
+
+  if (!selected) return null;
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-xl border border-gray-200 space-y-3 shadow-sm">
+      <div className="grid grid-cols-4 gap-2">
+        {images.map((media, i) => (
+          <div key={i} className="relative group">
+            <button
+              onClick={() => setSelectedIndex(i)}
+              className={`block w-full aspect-square rounded-lg overflow-hidden border-2 transition-colors ${i === index ? 'border-blue-500' : 'border-transparent hover:border-gray-300'}`}
+              title={`Imagem ${i + 1}`}
+            >
+              <img src={resolveImageUrl(media.src)} alt={media.alt} className="w-full h-full object-cover" style={{ objectPosition: `${media.focalPoint.x * 100}% ${media.focalPoint.y * 100}%` }} />
+            </button>
+            <button
+              onClick={() => handleRemove(i)}
+              className="absolute -top-1.5 -right-1.5 bg-red-500 hover:bg-red-600 text-white p-0.5 rounded-full shadow opacity-0 group-hover:opacity-100 transition-opacity"
+              title="Remover imagem"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <span className="flex items-center gap-1.5 text-xs text-gray-500 font-medium">
+          <Crosshair size={12} /> Ponto de foco (clique na imagem)
+        </span>
+        <div className="flex justify-center bg-gray-100 rounded-lg border border-gray-200 overflow-hidden">
+          {/* Sized to the image so click coordinates map straight onto it */}
+          <div className="relative cursor-crosshair" onClick={handleFocalPointClick}>
+            <img src={resolveImageUrl(selected.src)} alt="" className="block max-w-full max-h-48 pointer-events-none" />
+            <span
+              className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-white bg-blue-500/70 shadow pointer-events-none"
+              style={{ left: `${selected.focalPoint.x * 100}%`, top: `${selected.focalPoint.y * 100}%` }}
+            />
+          </div>
+        </div>
+      </div>
+
+      <button
+        onClick={() => onEditImage(index)}
+        className="w-full bg-white hover:bg-gray-50 text-gray-700 text-xs font-semibold py-2 px-3 rounded-lg border border-gray-200 transition-colors flex items-center justify-center gap-2 shadow-sm"
+      >
+        <Crop size={14} />
+        Recortar e ajustar
+      </button>
+
+      <textarea
+        value={selected.alt}
+        maxLength={MAX_ALT_LENGTH}
+        onFocus={onFieldFocus}
+        onBlur={() => onFieldBlur('tweetImages')}
+        onChange={(e) => onFieldChange({ tweetImages: updateImage({ alt: e.target.value }) })}
+        className={`${inputClass} resize-none h-16`}
+        placeholder="Texto alternativo (descrição da imagem)"
+      />
+
+      <div className="text-xs text-center text-gray-500">
+        {images.length} de {MAX_TWEET_IMAGES} imagens. Arraste a grade no card para mover ou redimensionar.
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+
+import React, { useMemo } from 'react';
+import { tokenizeTweet, formatDisplayUrl } from '../services/tweetText';
+
+// X's accent blue, used for hashtags, mentions and links unless the card's theme passes another
+const ENTITY_COLOR = '#1D9BF0';
+
+// Color emoji fonts first so exports don't fall back to monochrome glyphs
+const EMOJI_FONT_FAMILY = '"Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji", sans-serif';
+
+/**
+ * Renders tweet content with styled entities and **bold** / _italic_ markup.
+ * Meant to sit inside a `whitespace-pre-wrap` block, which keeps line breaks.
+ */
+export const TweetText: React.FC<{ content: string, accentColor?: string }> = ({ content, accentColor = ENTITY_COLOR }) => {
+  const tokens = useMemo(() => tokenizeTweet(content), [content]);
+
+  return (
+    <>
+      {tokens.map((token, index) => {
+        const style: React.CSSProperties = {
+          fontWeight: token.bold ? 700 : undefined,
+          fontStyle: token.italic ? 'italic' : undefined,
+        };
+        switch (token.type) {
+          case 'hashtag':
+          case 'mention':
+            return <span key={index} style={{ ...style, color: accentColor }}>{token.text}</span>;
+          case 'url':
+            return <span key={index} style={{ ...style, color: accentColor }} title={token.text}>{formatDisplayUrl(token.text)}</span>;
+          case 'emoji':
+            return <span key={index} style={{ ...style, fontFamily: EMOJI_FONT_FAMILY }}>{token.text}</span>;
+          default:
+            return token.bold || token.italic
+              ? <span key={index} style={style}>{token.text}</span>
+              : <React.Fragment key={index}>{token.text}</React.Fragment>;
+        }
+      })}
+    </>
+  );
+};
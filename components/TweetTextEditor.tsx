@@ -0,0 +1,88 @@
+
+import React, { useRef, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { measureTweet, TWEET_CHAR_LIMITS } from '../services/tweetText';
+
+interface TweetTextEditorProps {
+  value: string;
+  limit: number;
+  overflowsCard: boolean; // Estimated at the slide's current contentScale
+  onChange: (value: string) => void;
+  onLimitChange: (limit: number) => void;
+  onFocus: () => void;
+  onBlur: () => void;
+}
+
+const LIMITS = [
+  { value: TWEET_CHAR_LIMITS.standard, label: '280' },
+  { value: TWEET_CHAR_LIMITS.premium, label: 'Premium' },
+];
+
+// Shared by the textarea and the highlight layer behind it so their text wraps identically
+const TEXT_CLASS = "w-full px-4 py-2.5 text-sm border rounded-lg whitespace-pre-wrap break-words";
+
+/**
+ * Content textarea with X's weighted character counter. Text past the limit is
+ * highlighted by a mirror layer behind the (transparent) textarea.
+ */
+export const TweetTextEditor: React.FC<TweetTextEditorProps> = ({ value, limit, overflowsCard, onChange, onLimitChange, onFocus, onBlur }) => {
+  const [showFitWarning, setShowFitWarning] = useState(true);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const { weightedLength, overflowIndex } = measureTweet(value, limit);
+  const isOver = overflowIndex !== null;
+
+  const syncScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (backdropRef.current) backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="relative h-32 bg-white rounded-lg shadow-sm">
+        <div
+          ref={backdropRef}
+          aria-hidden
+          className={`${TEXT_CLASS} absolute inset-0 border-transparent text-transparent overflow-hidden pointer-events-none`}
+        >
+          {isOver ? value.slice(0, overflowIndex) : value}
+          {isOver && <mark className="bg-red-200 text-transparent rounded-sm">{value.slice(overflowIndex)}</mark>}
+          {/* Keeps a trailing line break from collapsing */}
+          {' '}
+        </div>
+        <textarea
+          value={value}
+          onFocus={onFocus}
+          onBlur={onBlur}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={syncScroll}
+          className={`${TEXT_CLASS} relative h-full bg-transparent text-gray-900 focus:ring-1 outline-none placeholder-gray-400 resize-none ${isOver ? 'border-red-300 focus:ring-red-400 focus:border-red-400' : 'border-gray-200 focus:ring-blue-500 focus:border-blue-500'}`}
+          placeholder="O que está acontecendo? Use **negrito** e _itálico_."
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-1 bg-gray-100 p-0.5 rounded-md">
+          {LIMITS.map((item) => (
+            <button
+              key={item.value}
+              onClick={() => onLimitChange(item.value)}
+              className={`px-2 py-0.5 text-[10px] font-semibold rounded transition-colors ${limit === item.value ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-800'}`}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+        <span className={`text-[11px] font-semibold tabular-nums ${isOver ? 'text-red-600' : weightedLength > limit * 0.9 ? 'text-amber-600' : 'text-gray-400'}`}>
+          {weightedLength.toLocaleString('pt-BR')} / {limit.toLocaleString('pt-BR')}
+        </span>
+      </div>
+
+      {overflowsCard && showFitWarning && (
+        <p className="text-[11px] text-amber-700 bg-amber-50 p-2 rounded border border-amber-100 flex items-start gap-1.5">
+          <AlertTriangle size={12} className="shrink-0 mt-0.5" />
+          <span className="flex-1">O texto provavelmente não cabe no card neste tamanho. Reduza a escala do texto ou divida em mais slides.</span>
+          <button onClick={() => setShowFitWarning(false)} className="font-semibold hover:underline shrink-0">Ocultar</button>
+        </p>
+      )}
+    </div>
+  );
+};
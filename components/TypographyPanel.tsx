@@ -0,0 +1,167 @@
+
+import React, { useRef, useState } from 'react';
+import { Upload, Loader2, Trash2 } from 'lucide-react';
+import { TweetData, TextStyle, UploadedFont } from '../types';
+import { CARD_FONTS, getCardFont } from '../constants';
+import { FONT_FILE_ACCEPT, addFontFile, isUploadedFont, textStyleToCss } from '../services/cardFonts';
+
+type TextTarget = 'headerFont' | 'bodyFont';
+
+interface TypographyPanelProps {
+  data: TweetData;
+  fonts: UploadedFont[]; // The project's uploaded fonts
+  onOptionChange: (patch: Partial<TweetData>) => void; // One undo step per change
+  onFieldChange: (patch: Partial<TweetData>) => void; // Dragging the spacing slider; history is saved on blur
+  onFieldFocus: () => void;
+  onFieldBlur: (field: keyof TweetData) => void;
+  onFontAdd: (font: UploadedFont, target: TextTarget) => void;
+  onFontRemove: (src: string) => void;
+  onError: (message: string | null) => void;
+}
+
+const TARGETS: { id: TextTarget; label: string; sample: string }[] = [
+  { id: 'headerFont', label: 'Cabeçalho', sample: 'Nome do Autor' },
+  { id: 'bodyFont', label: 'Texto', sample: 'O texto do tweet fica assim.' },
+];
+
+const WEIGHTS: { value: number; label: string }[] = [
+  { value: 100, label: 'Fina' },
+  { value: 200, label: 'Extraleve' },
+  { value: 300, label: 'Leve' },
+  { value: 400, label: 'Regular' },
+  { value: 500, label: 'Média' },
+  { value: 600, label: 'Seminegrito' },
+  { value: 700, label: 'Negrito' },
+  { value: 800, label: 'Extranegrito' },
+  { value: 900, label: 'Preta' },
+];
+
+const inputClass = "w-full bg-white border border-gray-200 text-gray-900 rounded-lg px-3 py-2 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none text-xs placeholder-gray-400 shadow-sm";
+const rangeClass = "flex-1 accent-blue-600 h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer";
+const chipClass = (isActive: boolean) => `flex-1 py-1.5 text-xs font-semibold rounded-md transition-colors ${isActive ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-800'}`;
+
+// Weights a font can draw; uploaded files are a single face, so the browser synthesizes the rest
+const getWeightRange = (font: string): [number, number] => {
+  return isUploadedFont(font) ? [100, 900] : getCardFont(font).weights;
+};
+
+const clampWeight = (weight: number, font: string): number => {
+  const [min, max] = getWeightRange(font);
+  return Math.min(max, Math.max(min, weight));
+};
+
+export const TypographyPanel: React.FC<TypographyPanelProps> = ({ data, fonts, onOptionChange, onFieldChange, onFieldFocus, onFieldBlur, onFontAdd, onFontRemove, onError }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [target, setTarget] = useState<TextTarget>('headerFont');
+  const [isUploading, setIsUploading] = useState(false);
+
+  const style = data[target];
+  const [minWeight, maxWeight] = getWeightRange(style.font);
+  const sample = TARGETS.find(item => item.id === target)!.sample;
+
+  const setStyle = (patch: Partial<TextStyle>) => onOptionChange({ [target]: { ...style, ...patch } });
+
+  const handleFontChange = (font: string) => {
+    setStyle({ font, weight: clampWeight(style.weight, font) });
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    onError(null);
+    setIsUploading(true);
+    try {
+      onFontAdd(await addFontFile(file), target);
+    } catch (err) {
+      console.error('Failed to add font', err);
+      onError(err instanceof Error ? err.message : "Não foi possível adicionar a fonte.");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleRemove = (font: UploadedFont) => {
+    if (!window.confirm(`Remover a fonte "${font.name}" do projeto? Os textos que a usam voltam para a fonte padrão.`)) return;
+    onFontRemove(font.src);
+  };
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-xl border border-gray-200 space-y-3 shadow-sm">
+      <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+        {TARGETS.map((item) => (
+          <button key={item.id} onClick={() => setTarget(item.id)} className={chipClass(target === item.id)}>
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-lg text-gray-900 truncate px-1" style={textStyleToCss(style)}>{sample}</p>
+
+      <div className="grid grid-cols-2 gap-2">
+        <select value={style.font} onChange={(e) => handleFontChange(e.target.value)} className={inputClass} title="Fonte">
+          <optgroup label="Incluídas">
+            {CARD_FONTS.map((font) => <option key={font.id} value={font.id}>{font.name}</option>)}
+          </optgroup>
+          {fonts.length > 0 && (
+            <optgroup label="Enviadas">
+              {fonts.map((font) => <option key={font.src} value={font.src}>{font.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        <select value={style.weight} onChange={(e) => setStyle({ weight: Number(e.target.value) })} className={inputClass} title="Peso">
+          {WEIGHTS.filter(weight => weight.value >= minWeight && weight.value <= maxWeight).map((weight) => (
+            <option key={weight.value} value={weight.value}>{weight.value} · {weight.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <span className="text-xs w-16 text-gray-500 font-medium">Espaço</span>
+        <input
+          type="range"
+          min="-10"
+          max="20"
+          step="0.5"
+          value={style.letterSpacing * 100}
+          onFocus={onFieldFocus}
+          onBlur={() => onFieldBlur(target)}
+          onChange={(e) => onFieldChange({ [target]: { ...style, letterSpacing: Number(e.target.value) / 100 } })}
+          className={rangeClass}
+          title="Espaçamento entre letras"
+        />
+        <span className="text-xs w-10 text-right text-gray-700 font-semibold tabular-nums">{Math.round(style.letterSpacing * 1000) / 10}%</span>
+      </div>
+
+      <div className="space-y-2 pt-1">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-500 font-medium">Fontes do projeto</span>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+            className="flex items-center gap-1 text-[11px] font-semibold text-blue-600 hover:underline disabled:text-gray-300 disabled:no-underline"
+          >
+            {isUploading ? <Loader2 size={12} className="animate-spin" /> : <Upload size={12} />} Enviar fonte
+          </button>
+          <input ref={fileInputRef} type="file" accept={FONT_FILE_ACCEPT} className="hidden" onChange={handleUpload} />
+        </div>
+        {fonts.length > 0 ? (
+          <ul className="space-y-1">
+            {fonts.map((font) => (
+              <li key={font.src} className="flex items-center gap-2 bg-white border border-gray-200 rounded-lg px-3 py-1.5">
+                <span className="flex-1 text-xs text-gray-700 truncate" style={textStyleToCss({ font: font.src, weight: 400, letterSpacing: 0 })}>{font.name}</span>
+                <button onClick={() => handleRemove(font)} className="p-1 text-gray-400 hover:text-red-600 transition-colors" title="Remover fonte">
+                  <Trash2 size={12} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-[11px] text-gray-400 leading-relaxed">
+            TTF, OTF, WOFF ou WOFF2. As fontes ficam salvas no projeto e entram na imagem exportada.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,65 +1,380 @@
 
-import { TweetData, BackgroundOption } from "./types";
+import { TweetData, BackgroundOption, CardFont, ExportSettings, CanvasFormat, CanvasFormatId, CarouselState, AiSettings, CardTemplate } from "./types";
 
 // A simple gray 1x1 pixel image to prevent large string syntax errors. 
 // The previous large image might have caused copy-paste truncation issues.
 export const DEFAULT_AVATAR_BASE64 = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNk+A8AAQUBAScY42YAAAAASUVORK5CYII=";
 
+// Grey 4:3 picture with a mountain and sun, standing in for the user's image in templates
+export const PLACEHOLDER_IMAGE = `data:image/svg+xml,${encodeURIComponent('<svg xmlns="http://www.w3.org/2000/svg" width="1200" height="900" viewBox="0 0 1200 900"><rect width="1200" height="900" fill="#E5E7EB"/><circle cx="820" cy="300" r="80" fill="#D1D5DB"/><path d="M240 700 480 400 640 580 760 460 960 700Z" fill="#D1D5DB"/></svg>')}`;
+
 export const BACKGROUND_OPTIONS: BackgroundOption[] = [
   {
     id: 'classic',
     name: 'Clássico',
-    style: '#FFFFFF',
-    previewClass: 'bg-white border-2 border-slate-200'
+    background: { type: 'solid', color: '#FFFFFF' }
   },
   {
     id: 'dark',
     name: 'Dark Mode',
-    style: '#15202B',
-    previewClass: 'bg-[#15202B] border-2 border-slate-700'
+    background: { type: 'solid', color: '#15202B' }
   },
   {
     id: 'sunset',
     name: 'Sunset Viral',
-    style: 'linear-gradient(135deg, #FF9A9E 0%, #FECFEF 99%, #FECFEF 100%)',
-    previewClass: 'bg-gradient-to-br from-pink-300 to-pink-100'
+    background: { type: 'gradient', shape: 'linear', angle: 135, stops: [{ color: '#FF9A9E', position: 0 }, { color: '#FECFEF', position: 99 }, { color: '#FECFEF', position: 100 }] }
   },
   {
     id: 'tech',
     name: 'Tech Blue',
-    style: 'linear-gradient(135deg, #E0F2FE 0%, #E0E7FF 100%)',
-    previewClass: 'bg-gradient-to-br from-blue-100 to-indigo-100'
+    background: { type: 'gradient', shape: 'linear', angle: 135, stops: [{ color: '#E0F2FE', position: 0 }, { color: '#E0E7FF', position: 100 }] }
   },
   {
     id: 'lemon',
     name: 'Fresh Lemon',
-    style: 'linear-gradient(120deg, #fdfbfb 0%, #ebedee 100%)',
-    previewClass: 'bg-gradient-to-br from-slate-50 to-slate-200'
+    background: { type: 'gradient', shape: 'linear', angle: 120, stops: [{ color: '#FDFBFB', position: 0 }, { color: '#EBEDEE', position: 100 }] }
   },
   {
     id: 'neon',
     name: 'Neon Dark',
-    style: 'linear-gradient(to bottom right, #111827, #1e1b4b)',
-    previewClass: 'bg-gradient-to-br from-gray-900 to-indigo-950'
+    background: { type: 'gradient', shape: 'linear', angle: 135, stops: [{ color: '#111827', position: 0 }, { color: '#1E1B4B', position: 100 }] }
   }
 ];
 
+// Typefaces bundled with the app; the first is the default
+export const CARD_FONTS: CardFont[] = [
+  { id: 'inter', name: 'Inter', family: 'Inter', fallback: 'sans-serif', weights: [100, 900] },
+  { id: 'roboto', name: 'Roboto', family: 'Roboto', fallback: 'sans-serif', weights: [100, 900] },
+  { id: 'poppins', name: 'Poppins', family: 'Poppins', fallback: 'sans-serif', weights: [400, 800] },
+  { id: 'montserrat', name: 'Montserrat', family: 'Montserrat', fallback: 'sans-serif', weights: [100, 900] },
+  { id: 'lora', name: 'Lora', family: 'Lora', fallback: 'serif', weights: [400, 700] },
+  { id: 'playfair', name: 'Playfair Display', family: 'Playfair Display', fallback: 'serif', weights: [400, 900] },
+];
+
+export const getCardFont = (id: string): CardFont => {
+  return CARD_FONTS.find(font => font.id === id) ?? CARD_FONTS[0];
+};
+
+// Uploaded font files larger than this are rejected
+export const MAX_FONT_FILE_SIZE = 5 * 1024 * 1024;
+
+// Saved custom backgrounds shown next to the presets
+export const MAX_SAVED_BACKGROUNDS = 12;
+
 export const DEFAULT_TWEET_DATA: TweetData = {
   displayName: "Pedro Barboza",
   handle: "@Pedro.barboza_",
   content: "Dê vida aos seus posts usando a primeira ferramenta do Brasil que gera posts do Instagram no Formato de Tweet.",
   avatarUrl: DEFAULT_AVATAR_BASE64,
+  badge: 'blue',
+  badgeIconUrl: null,
+  timestamp: '',
+  replyingTo: '',
+  isPromoted: false,
+  layout: 'single',
+  quotedTweet: {
+    displayName: "Perfil Citado",
+    handle: "@perfil",
+    avatarUrl: DEFAULT_AVATAR_BASE64,
+    content: "O tweet que você está citando aparece aqui.",
+    badge: 'none',
+    image: null,
+  },
+  threadReplies: [
+    {
+      displayName: "Pedro Barboza",
+      handle: "@Pedro.barboza_",
+      avatarUrl: DEFAULT_AVATAR_BASE64,
+      content: "E a thread continua aqui embaixo 👇",
+      badge: 'blue',
+      image: null,
+    },
+  ],
   headerPosition: { x: 0, y: 0 },
   headerScale: 1,
   contentPosition: { x: 0, y: 0 },
   contentScale: 1,
+  autoFitText: false,
+
+  // Text colors follow the background unless overridden
+  textTone: 'auto',
+  nameColor: null,
+  handleColor: null,
+  bodyColor: null,
+  accentColor: null,
+
+  // Typography defaults
+  headerFont: { font: 'inter', weight: 700, letterSpacing: -0.025 },
+  bodyFont: { font: 'inter', weight: 400, letterSpacing: -0.02 },
   
-  background: BACKGROUND_OPTIONS[0].style,
+  background: BACKGROUND_OPTIONS[0].background,
 
   // New Media defaults
-  tweetImage: null,
+  tweetImages: [],
   tweetImagePosition: { x: 0, y: 0 },
   tweetImageScale: 1.0,
+
+  // Engagement footer defaults
+  showFooter: false,
+  postedAt: '2026-10-19T10:42',
+  source: '',
+  engagement: { replies: 128, reposts: 1240, likes: 12400, bookmarks: 860, views: 1200000 },
+  footerPosition: { x: 0, y: 0 },
+  footerScale: 1,
+  locale: 'pt-BR',
+
+  layers: [],
+};
+
+export const CANVAS_FORMATS: CanvasFormat[] = [
+  { id: '1:1', name: 'Quadrado', width: 1080, height: 1080, paddingX: 100, paddingY: 100 },
+  { id: '4:5', name: 'Retrato', width: 1080, height: 1350, paddingX: 100, paddingY: 110 },
+  { id: '3:4', name: 'Clássico', width: 1080, height: 1440, paddingX: 100, paddingY: 120 },
+  // Stories keep text clear of the profile bar and reply field
+  { id: '9:16', name: 'Stories', width: 1080, height: 1920, paddingX: 100, paddingY: 250 },
+  { id: '16:9', name: 'X / LinkedIn', width: 1920, height: 1080, paddingX: 160, paddingY: 100 },
+];
+
+export const DEFAULT_CANVAS_FORMAT: CanvasFormatId = '3:4';
+
+export const getCanvasFormat = (id: CanvasFormatId): CanvasFormat => {
+  return CANVAS_FORMATS.find(format => format.id === id) ?? CANVAS_FORMATS.find(format => format.id === DEFAULT_CANVAS_FORMAT)!;
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'jpeg',
+  quality: 0.95,
+  pixelRatio: 1,
+  transparentBackground: false,
+};
+
+export const DEFAULT_CAROUSEL_STATE: CarouselState = {
+  slides: [DEFAULT_TWEET_DATA],
+  activeSlideIndex: 0,
+  canvasFormat: DEFAULT_CANVAS_FORMAT,
+  fonts: [],
+};
+
+// Content slides a carousel preset starts with, between its cover and CTA
+export const DEFAULT_TEMPLATE_CONTENT_SLIDES = 3;
+
+const templateSlide = (patch: Partial<TweetData>): TweetData => ({ ...DEFAULT_TWEET_DATA, ...patch });
+
+// Built-in layouts for one card, and carousel presets: a cover, content slides repeated to length, and a CTA
+export const CARD_TEMPLATES: CardTemplate[] = [
+  {
+    id: 'text-only',
+    name: 'Só texto',
+    description: 'Texto que se ajusta ao espaço do card.',
+    kind: 'card',
+    canvasFormat: null,
+    repeatSlideIndex: null,
+    fonts: [],
+    slides: [templateSlide({
+      content: "Escreva aqui a sua ideia principal. O tamanho do texto se ajusta sozinho ao espaço do card.",
+      autoFitText: true,
+    })],
+  },
+  {
+    id: 'big-image',
+    name: 'Texto + imagem grande',
+    description: 'Legenda curta acima de uma imagem em destaque.',
+    kind: 'card',
+    canvasFormat: null,
+    repeatSlideIndex: null,
+    fonts: [],
+    slides: [templateSlide({
+      content: "Uma legenda curta para a imagem abaixo 👇",
+      contentScale: 0.7,
+      tweetImages: [{ src: PLACEHOLDER_IMAGE, alt: '', focalPoint: { x: 0.5, y: 0.5 } }],
+    })],
+  },
+  {
+    id: 'centered-quote',
+    name: 'Citação centralizada',
+    description: 'Uma frase em destaque, com fonte serifada.',
+    kind: 'card',
+    canvasFormat: null,
+    repeatSlideIndex: null,
+    fonts: [],
+    slides: [templateSlide({
+      content: "“Uma frase marcante merece espaço para respirar.”",
+      background: BACKGROUND_OPTIONS[1].background,
+      headerScale: 0.8,
+      contentPosition: { x: 0, y: 160 },
+      contentScale: 1.1,
+      bodyFont: { font: 'playfair', weight: 500, letterSpacing: 0 },
+    })],
+  },
+  {
+    id: 'minimal-header',
+    name: 'Cabeçalho mínimo',
+    description: 'Autor discreto e a mensagem em primeiro plano.',
+    kind: 'card',
+    canvasFormat: null,
+    repeatSlideIndex: null,
+    fonts: [],
+    slides: [templateSlide({
+      content: "Menos moldura, mais mensagem. O autor fica discreto e o texto ocupa o card.",
+      headerScale: 0.6,
+      headerFont: { font: 'inter', weight: 600, letterSpacing: -0.02 },
+      bodyFont: { font: 'inter', weight: 500, letterSpacing: -0.03 },
+      autoFitText: true,
+    })],
+  },
+  {
+    id: 'tips-list',
+    name: 'Lista de dicas',
+    description: 'Capa chamativa, uma dica por slide e CTA para salvar.',
+    kind: 'carousel',
+    canvasFormat: null,
+    repeatSlideIndex: 1,
+    fonts: [],
+    slides: [
+      templateSlide({
+        content: "Dicas que eu queria ter aprendido antes 🧵",
+        contentPosition: { x: 0, y: 80 },
+        contentScale: 1.35,
+        headerFont: { font: 'montserrat', weight: 800, letterSpacing: -0.02 },
+        bodyFont: { font: 'montserrat', weight: 700, letterSpacing: -0.03 },
+      }),
+      templateSlide({
+        content: "Dica {n}: explique um único ponto por slide, com um exemplo concreto.",
+        autoFitText: true,
+        headerFont: { font: 'montserrat', weight: 800, letterSpacing: -0.02 },
+        bodyFont: { font: 'montserrat', weight: 500, letterSpacing: -0.02 },
+      }),
+      templateSlide({
+        content: "Gostou? Salve este post para consultar depois e me siga para mais dicas 🔖",
+        contentScale: 1.1,
+        showFooter: true,
+        headerFont: { font: 'montserrat', weight: 800, letterSpacing: -0.02 },
+        bodyFont: { font: 'montserrat', weight: 700, letterSpacing: -0.02 },
+      }),
+    ],
+  },
+  {
+    id: 'storytelling',
+    name: 'Storytelling',
+    description: 'Fundo escuro, história em sequência e pergunta no final.',
+    kind: 'carousel',
+    canvasFormat: null,
+    repeatSlideIndex: 1,
+    fonts: [],
+    slides: [
+      templateSlide({
+        content: "Há um ano eu quase desisti. Isto foi o que mudou 👇",
+        background: BACKGROUND_OPTIONS[5].background,
+        contentScale: 1.2,
+        bodyFont: { font: 'lora', weight: 600, letterSpacing: -0.01 },
+      }),
+      templateSlide({
+        content: "Parte {n}: conte um momento, um detalhe ou uma virada da história.",
+        background: BACKGROUND_OPTIONS[5].background,
+        autoFitText: true,
+        bodyFont: { font: 'lora', weight: 400, letterSpacing: 0 },
+      }),
+      templateSlide({
+        content: "E você, já passou por algo parecido? Conta nos comentários 💬",
+        background: BACKGROUND_OPTIONS[5].background,
+        contentScale: 1.1,
+        bodyFont: { font: 'lora', weight: 600, letterSpacing: -0.01 },
+      }),
+    ],
+  },
+  {
+    id: 'step-by-step',
+    name: 'Passo a passo',
+    description: 'Tutorial com capa, um passo por slide e resumo final.',
+    kind: 'carousel',
+    canvasFormat: null,
+    repeatSlideIndex: 1,
+    fonts: [],
+    slides: [
+      templateSlide({
+        content: "Como fazer isso em poucos passos (guia rápido)",
+        background: BACKGROUND_OPTIONS[3].background,
+        contentPosition: { x: 0, y: 80 },
+        contentScale: 1.3,
+        headerFont: { font: 'poppins', weight: 700, letterSpacing: -0.02 },
+        bodyFont: { font: 'poppins', weight: 700, letterSpacing: -0.03 },
+      }),
+      templateSlide({
+        content: "Passo {n}: descreva a ação e o resultado que a pessoa deve ver.",
+        background: BACKGROUND_OPTIONS[3].background,
+        autoFitText: true,
+        headerFont: { font: 'poppins', weight: 700, letterSpacing: -0.02 },
+        bodyFont: { font: 'poppins', weight: 400, letterSpacing: -0.02 },
+      }),
+      templateSlide({
+        content: "Resumo: os passos em uma linha cada. Compartilhe com quem precisa ver isso ➡️",
+        background: BACKGROUND_OPTIONS[3].background,
+        headerFont: { font: 'poppins', weight: 700, letterSpacing: -0.02 },
+        bodyFont: { font: 'poppins', weight: 600, letterSpacing: -0.02 },
+      }),
+    ],
+  },
+];
+
+export const DEFAULT_PROJECT_NAME = 'Projeto sem título';
+
+// Quiet period after the last edit before the project is written to IndexedDB
+export const AUTOSAVE_DELAY_MS = 1500;
+
+// Base typography of the card body (multiplied by contentScale)
+export const CONTENT_FONT_SIZE = 92;
+export const CONTENT_LINE_HEIGHT = 1.15;
+
+// Font size range searched by auto-fit text, in card pixels
+export const AUTO_FIT_MIN_FONT_SIZE = 32;
+export const AUTO_FIT_MAX_FONT_SIZE = 128;
+
+// Avatar height plus the gap below the header (multiplied by headerScale)
+export const HEADER_BLOCK_HEIGHT = 150 + 64;
+
+// A thread card shows the main tweet plus up to 3 replies
+export const MAX_THREAD_REPLIES = 3;
+
+// X allows up to four images per tweet
+export const MAX_TWEET_IMAGES = 4;
+
+// Largest scale the resize handles give a card element
+export const MAX_ELEMENT_SCALE = 3;
+
+// Export pixelRatio stored images are sized for; 3× exports and enlarged elements upscale a little
+const STORED_IMAGE_PIXEL_RATIO: ExportSettings['pixelRatio'] = 2;
+
+// Browsers refuse to draw much past 4096×4096 (Safari caps canvases at 16.7M pixels)
+const MAX_STORED_IMAGE_DIMENSION = 4096;
+
+const capImageDimension = (size: number) => Math.min(MAX_STORED_IMAGE_DIMENSION, Math.ceil(size * STORED_IMAGE_PIXEL_RATIO));
+
+// Longest side, in image pixels, that stored images are downscaled to: the size each is drawn on the card, at 2×
+export const IMAGE_MAX_DIMENSIONS = {
+  avatar: capImageDimension(150), // 150px avatar
+  badge: capImageDimension(42), // 42px badge
+  media: capImageDimension(Math.max(...CANVAS_FORMATS.map(format => format.width - format.paddingX * 2))),
+  background: capImageDimension(Math.max(...CANVAS_FORMATS.map(format => Math.max(format.width, format.height)))),
 };
 
-export const GEMINI_MODEL = 'gemini-2.5-flash-image';
+// Extra layers (text boxes, stickers, arrows, shapes) a slide can hold
+export const MAX_LAYERS = 20;
+
+// Quick picks for sticker layers; any emoji can be typed in as well
+export const STICKER_EMOJIS = ['🔥', '👇', '👉', '✅', '❌', '⚠️', '💡', '🚀', '⭐', '❤️', '😂', '🤯', '👀', '📌', '💬', '🎯'];
+
+// Instagram carousels accept up to 10 images per post
+export const MAX_SLIDES = 10;
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  // Without a Gemini key the app falls back to the offline mock provider
+  provider: process.env.API_KEY ? 'gemini' : 'mock',
+  geminiTextModel: 'gemini-2.5-flash',
+  geminiImageModel: 'gemini-2.5-flash-image',
+  openAiBaseUrl: 'https://api.openai.com/v1',
+  openAiApiKey: '',
+  openAiTextModel: 'gpt-4o-mini',
+  openAiImageModel: 'gpt-image-1',
+  timeoutSeconds: 60,
+  maxRetries: 2,
+};
@@ -0,0 +1,88 @@
+
+/**
+ * Typed errors for AI calls. Providers throw an AiError when they can tell
+ * what went wrong; anything else is classified by `toAiError` from the HTTP
+ * status and message. The `message` is always ready for the error banner.
+ */
+
+export type AiErrorCode =
+  | 'quota'
+  | 'safety'
+  | 'no-image'
+  | 'no-text'
+  | 'invalid-key'
+  | 'timeout'
+  | 'network'
+  | 'server'
+  | 'cancelled'
+  | 'unknown';
+
+const MESSAGES: Record<AiErrorCode, string> = {
+  quota: "Limite de uso da IA atingido. Aguarde alguns minutos ou verifique a cota da sua conta.",
+  safety: "O pedido foi bloqueado pelos filtros de segurança da IA. Tente um comando diferente.",
+  'no-image': "A IA não retornou nenhuma imagem. Tente um comando diferente.",
+  'no-text': "A IA não retornou nenhum texto. Tente novamente.",
+  'invalid-key': "Chave da API ausente ou inválida. Verifique as configurações do provedor de IA.",
+  timeout: "A IA demorou demais para responder. Tente novamente.",
+  network: "Não foi possível conectar ao provedor de IA. Verifique sua conexão.",
+  server: "O provedor de IA está com instabilidade. Tente novamente em instantes.",
+  cancelled: "Operação cancelada.",
+  unknown: "Algo deu errado com a IA. Tente novamente.",
+};
+
+export class AiError extends Error {
+  readonly code: AiErrorCode;
+  readonly status?: number;
+  readonly cause?: unknown;
+
+  constructor(code: AiErrorCode, options: { message?: string; status?: number; cause?: unknown } = {}) {
+    super(options.message || MESSAGES[code]);
+    this.name = 'AiError';
+    this.code = code;
+    this.status = options.status;
+    this.cause = options.cause;
+  }
+
+  // Rate limits and server hiccups usually pass on their own
+  get retryable(): boolean {
+    return this.code === 'server' || this.code === 'network' || (this.code === 'quota' && this.status === 429);
+  }
+}
+
+export const isAiCancelled = (error: unknown): boolean => {
+  return error instanceof AiError && error.code === 'cancelled';
+};
+
+const statusOf = (error: any): number | undefined => {
+  if (typeof error?.status === 'number') return error.status;
+  // The Gemini SDK only puts the status in the message for some errors, e.g. "got status: 429 Too Many Requests"
+  const match = /status:?\s*(\d{3})/i.exec(error?.message ?? '');
+  return match ? parseInt(match[1], 10) : undefined;
+};
+
+export const toAiError = (error: unknown): AiError => {
+  if (error instanceof AiError) return error;
+
+  const err = error as any;
+  if (err?.name === 'AbortError') return new AiError('cancelled', { cause: error });
+
+  const status = statusOf(err);
+  const message: string = err?.message ?? '';
+
+  if (/api key|api_key|unauthori[sz]ed|permission denied/i.test(message) || status === 401 || status === 403) {
+    return new AiError('invalid-key', { status, cause: error });
+  }
+  if (status === 429 || /quota|resource_exhausted|rate limit/i.test(message)) {
+    return new AiError('quota', { status, cause: error });
+  }
+  if (/safety|blocked|content_policy|prohibited/i.test(message)) {
+    return new AiError('safety', { status, cause: error });
+  }
+  if (status !== undefined && status >= 500) {
+    return new AiError('server', { status, cause: error });
+  }
+  if (err instanceof TypeError && /fetch|network/i.test(message)) {
+    return new AiError('network', { cause: error });
+  }
+  return new AiError('unknown', { status, cause: error });
+};
@@ -0,0 +1,87 @@
+
+import { AiError, toAiError } from "./aiErrors";
+
+export interface AiRequestOptions {
+  signal?: AbortSignal; // Cancels the whole request, including pending retries
+  timeoutMs: number; // Per attempt; 0 disables the timeout
+  maxRetries: number;
+}
+
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 16000;
+
+/**
+ * Resolves after `ms`, or rejects with a cancelled AiError as soon as `signal` aborts.
+ */
+export const wait = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AiError('cancelled'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AiError('cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+const whenAborted = (signal: AbortSignal): Promise<never> => {
+  return new Promise((_, reject) => {
+    signal.addEventListener('abort', () => reject(new AiError('cancelled')), { once: true });
+  });
+};
+
+const runAttempt = async <T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = timeoutMs > 0
+    ? setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs)
+    : undefined;
+
+  try {
+    if (signal?.aborted) throw new AiError('cancelled');
+    // Race against the signal so a provider that ignores it still stops the spinner
+    return await Promise.race([task(controller.signal), whenAborted(controller.signal)]);
+  } catch (error) {
+    if (timedOut) throw new AiError('timeout', { cause: error });
+    if (signal?.aborted) throw new AiError('cancelled', { cause: error });
+    throw toAiError(error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+/**
+ * Runs `task` with a per-attempt timeout, retrying retryable failures (429, 5xx,
+ * network) with exponential backoff and jitter. Always rejects with an AiError.
+ */
+export const runWithRetry = async <T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  { signal, timeoutMs, maxRetries }: AiRequestOptions
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await runAttempt(task, timeoutMs, signal);
+    } catch (error) {
+      const aiError = toAiError(error);
+      if (!aiError.retryable || attempt >= maxRetries) throw aiError;
+
+      const backoff = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+      console.warn(`AI request failed (${aiError.code}), retrying in ${Math.round(backoff / 1000)}s`, aiError.cause);
+      await wait(backoff / 2 + Math.random() * backoff / 2, signal);
+    }
+  }
+};
@@ -0,0 +1,232 @@
+import { AiProvider, AiSettings, TweetTone, TweetLanguage, GeneratedSlide } from "../types";
+import { loadAiSettings } from "./aiSettings";
+import { AiError, toAiError } from "./aiErrors";
+import { runWithRetry } from "./aiRequest";
+import { truncateText } from "./textLayout";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createOpenAiProvider } from "./providers/openAiProvider";
+import { createMockProvider } from "./providers/mockProvider";
+
+const getProvider = (settings: AiSettings): AiProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAiProvider(settings);
+    case 'mock':
+      return createMockProvider();
+    default:
+      return createGeminiProvider(settings);
+  }
+};
+
+/**
+ * Runs a call against the provider picked in the AI settings panel, with the
+ * configured timeout and retries. Settings are read on every call so changes
+ * apply without reloading.
+ */
+const callProvider = <T>(
+  task: (provider: AiProvider, signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  const settings = loadAiSettings();
+  const provider = getProvider(settings);
+  return runWithRetry((attemptSignal) => task(provider, attemptSignal), {
+    signal,
+    timeoutMs: settings.timeoutSeconds * 1000,
+    maxRetries: settings.maxRetries,
+  });
+};
+
+/**
+ * Edits an image with the active provider.
+ * Takes a base64 image and a text prompt.
+ */
+export const editImage = async (
+  base64Image: string,
+  prompt: string,
+  signal?: AbortSignal
+): Promise<string> => {
+  try {
+    return await callProvider((provider, attemptSignal) => provider.editImage(base64Image, prompt, attemptSignal), signal);
+  } catch (error: any) {
+    console.error("AI Image Edit Error:", error);
+    throw toAiError(error);
+  }
+};
+
+/**
+ * Generates a new image with the active provider.
+ */
+export const generateImage = async (prompt: string, signal?: AbortSignal): Promise<string> => {
+  try {
+    return await callProvider((provider, attemptSignal) => provider.generateImage(prompt, attemptSignal), signal);
+  } catch (error: any) {
+    console.error("AI Image Generation Error:", error);
+    throw toAiError(error);
+  }
+};
+
+// --- Tweet Text ---
+
+const TWEET_VARIANT_COUNT = 3;
+
+const TONE_INSTRUCTIONS: Record<TweetTone, string> = {
+  viral: 'punchy and attention-grabbing, with a strong hook in the first line, built to be shared',
+  professional: 'clear, credible and professional, suitable for LinkedIn or a company account',
+  humorous: 'witty and humorous, playful but still on topic',
+};
+
+const LANGUAGE_NAMES: Record<TweetLanguage, string> = {
+  'pt-BR': 'Brazilian Portuguese',
+  en: 'English',
+};
+
+/**
+ * Asks the provider for a JSON array of tweet texts and returns the non-empty ones.
+ */
+const generateTweetVariants = async (instruction: string, signal?: AbortSignal): Promise<string[]> => {
+  const text = await callProvider((provider, attemptSignal) => provider.generateText({
+    prompt: `${instruction}
+
+Return exactly ${TWEET_VARIANT_COUNT} alternative versions as a JSON array of strings. Plain text only: no surrounding quotes, no numbering, no explanations.`,
+    schema: { type: 'array', items: { type: 'string' }, minItems: TWEET_VARIANT_COUNT, maxItems: TWEET_VARIANT_COUNT },
+  }, attemptSignal), signal);
+
+  const parsed: unknown = JSON.parse(text || '[]');
+  const variants = Array.isArray(parsed)
+    ? parsed.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim())
+    : [];
+
+  if (variants.length === 0) {
+    throw new AiError('no-text');
+  }
+  return variants;
+};
+
+/**
+ * Writes new tweets about a topic, in the language the topic is written in.
+ */
+export const generateTweet = async (topic: string, signal?: AbortSignal): Promise<string[]> => {
+  try {
+    return await generateTweetVariants(
+      `Write a tweet about the following topic, in the same language as the topic. Keep it under 280 characters.\n\nTopic: ${topic}`,
+      signal
+    );
+  } catch (error: any) {
+    console.error("AI Text Generation Error:", error);
+    throw toAiError(error);
+  }
+};
+
+/**
+ * Rewrites an existing tweet in the given tone, keeping its language and meaning.
+ */
+export const rewriteTweet = async (content: string, tone: TweetTone, signal?: AbortSignal): Promise<string[]> => {
+  try {
+    return await generateTweetVariants(
+      `Rewrite the tweet below so it is ${TONE_INSTRUCTIONS[tone]}. Keep the original language and meaning.\n\nTweet:\n${content}`,
+      signal
+    );
+  } catch (error: any) {
+    console.error("AI Text Rewrite Error:", error);
+    throw toAiError(error);
+  }
+};
+
+/**
+ * Shortens a tweet to at most `maxLength` characters. Variants that still exceed the limit are dropped.
+ */
+export const shortenTweet = async (content: string, maxLength: number, signal?: AbortSignal): Promise<string[]> => {
+  try {
+    const variants = await generateTweetVariants(
+      `Shorten the tweet below to at most ${maxLength} characters. Keep the original language and the key message.\n\nTweet:\n${content}`,
+      signal
+    );
+    const fitting = variants.filter(variant => Array.from(variant).length <= maxLength);
+    if (fitting.length === 0) {
+      throw new AiError('no-text', { message: `A IA não conseguiu encurtar o texto para ${maxLength} caracteres. Tente novamente.` });
+    }
+    return fitting;
+  } catch (error: any) {
+    console.error("AI Text Shorten Error:", error);
+    throw toAiError(error);
+  }
+};
+
+/**
+ * Translates a tweet, adapting idioms and hashtags rather than translating word by word.
+ */
+export const translateTweet = async (content: string, target: TweetLanguage, signal?: AbortSignal): Promise<string[]> => {
+  try {
+    return await generateTweetVariants(
+      `Translate the tweet below into ${LANGUAGE_NAMES[target]}. Adapt idioms and tone naturally instead of translating word by word, and keep @mentions, URLs and emoji unchanged.\n\nTweet:\n${content}`,
+      signal
+    );
+  } catch (error: any) {
+    console.error("AI Translation Error:", error);
+    throw toAiError(error);
+  }
+};
+
+// --- Carousel ---
+
+/**
+ * Turns a topic or a long text into a carousel script: a hook slide, body slides and a CTA slide.
+ * Every slide is clamped to `maxChars` so it fits the card at the current text scale.
+ */
+export const generateCarousel = async (
+  source: string,
+  slideCount: number,
+  maxChars: number,
+  signal?: AbortSignal
+): Promise<GeneratedSlide[]> => {
+  try {
+    const text = await callProvider((provider, attemptSignal) => provider.generateText({
+      prompt: `You write Instagram carousels in the style of tweet screenshots.
+Turn the source below into exactly ${slideCount} slides, in the same language as the source:
+- slide 1 is a "hook": a bold opening that makes people swipe;
+- slides 2 to ${slideCount - 1} are "body" slides, one idea each, in a logical order;
+- the last slide is a "cta": a call to action (follow, save, share or comment).
+Each slide's text must be at most ${maxChars} characters. No slide numbers, no hashtags unless essential.
+
+Source:
+${source}`,
+      schema: {
+        type: 'object',
+        properties: {
+          slides: {
+            type: 'array',
+            minItems: slideCount,
+            maxItems: slideCount,
+            items: {
+              type: 'object',
+              properties: {
+                role: { type: 'string', enum: ['hook', 'body', 'cta'] },
+                text: { type: 'string' },
+              },
+              required: ['role', 'text'],
+            },
+          },
+        },
+        required: ['slides'],
+      },
+    }, attemptSignal), signal);
+
+    const parsed = JSON.parse(text || '{}');
+    const slides: GeneratedSlide[] = (Array.isArray(parsed.slides) ? parsed.slides : [])
+      .filter((slide: any) => typeof slide?.text === 'string' && slide.text.trim() !== '')
+      .slice(0, slideCount)
+      .map((slide: any, index: number, all: any[]) => ({
+        // Trust the position over the model's label so the order is always hook -> body -> cta
+        role: index === 0 ? 'hook' : index === all.length - 1 ? 'cta' : 'body',
+        text: truncateText(slide.text.trim(), maxChars),
+      }));
+
+    if (slides.length === 0) {
+      throw new AiError('no-text');
+    }
+    return slides;
+  } catch (error: any) {
+    console.error("AI Carousel Generation Error:", error);
+    throw toAiError(error);
+  }
+};
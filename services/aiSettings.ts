@@ -0,0 +1,25 @@
+
+import { AiSettings } from '../types';
+import { DEFAULT_AI_SETTINGS } from '../constants';
+
+const STORAGE_KEY = 'tweetgen:ai-settings';
+
+/**
+ * Reads the provider settings saved in this browser, falling back to defaults for missing fields.
+ */
+export const loadAiSettings = (): AiSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_AI_SETTINGS, ...JSON.parse(stored) } : DEFAULT_AI_SETTINGS;
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save AI settings", e);
+  }
+};
@@ -0,0 +1,110 @@
+
+import { blobToDataUrl, dataUrlToBlob, normalizeImage } from './imageUtils';
+
+/**
+ * Shared store for the images and uploaded fonts used by slides.
+ *
+ * Image fields in TweetData hold an `asset:<sha-256>` reference instead of the
+ * image itself, so undo history, copied slides and repeated uploads all point
+ * at one Blob. Fields may still hold plain data URLs (the default avatar,
+ * legacy saves); resolveImageUrl handles both, so render every image field
+ * through it. Uploaded fonts use the same references, in TextStyle.font and
+ * the project's font list.
+ *
+ * The store lives in memory. IndexedDB saves keep the Blobs inside the
+ * project record and project files embed data URLs; both are turned back
+ * into references on load.
+ */
+
+const ASSET_PREFIX = 'asset:';
+
+// Full references only, so tweet text that happens to start with "asset:" is left alone
+const ASSET_REF_PATTERN = /^asset:[0-9a-f]{64}$/;
+
+// Base64 images and font files, as FileReader writes them; "data: 19/10" in a tweet doesn't match
+const EMBEDDED_FILE_PATTERN = /^data:(image|font|application)\/[\w.+-]+(;[\w-]+=[\w.+-]+)*;base64,/;
+
+interface Asset {
+  blob: Blob;
+  url: string; // Object URL, kept for the lifetime of the page
+}
+
+const assets = new Map<string, Asset>();
+
+export const isAssetRef = (value: unknown): boolean => {
+  return typeof value === 'string' && ASSET_REF_PATTERN.test(value);
+};
+
+export const isEmbeddedFile = (value: unknown): value is string => {
+  return typeof value === 'string' && EMBEDDED_FILE_PATTERN.test(value);
+};
+
+const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Adds a Blob to the store as-is and returns its reference. Identical Blobs share one entry.
+ */
+export const putAsset = async (blob: Blob): Promise<string> => {
+  const ref = `${ASSET_PREFIX}${await hashBlob(blob)}`;
+  if (!assets.has(ref)) {
+    assets.set(ref, { blob, url: URL.createObjectURL(blob) });
+  }
+  return ref;
+};
+
+/**
+ * Downscales, re-encodes and stores an uploaded or generated image.
+ * `maxDimension` should be one of IMAGE_MAX_DIMENSIONS.
+ */
+export const storeImage = async (source: Blob | string, maxDimension: number): Promise<string> => {
+  const blob = typeof source === 'string' ? await dataUrlToBlob(source) : source;
+  return putAsset(await normalizeImage(blob, maxDimension));
+};
+
+// URL an <img> can load for an image field; references missing from the store resolve to ''
+export const resolveImageUrl = (src: string): string => {
+  return isAssetRef(src) ? assets.get(src)?.url ?? '' : src;
+};
+
+export const getAssetBlob = async (src: string): Promise<Blob> => {
+  if (!isAssetRef(src)) return dataUrlToBlob(src);
+  const asset = assets.get(src);
+  if (!asset) throw new Error(`Imagem ${src} não encontrada.`);
+  return asset.blob;
+};
+
+// Data URL of an image field, for APIs that need the bytes inline (AI edits, project files)
+export const toDataUrl = async (src: string): Promise<string> => {
+  return isAssetRef(src) ? blobToDataUrl(await getAssetBlob(src)) : src;
+};
+
+/**
+ * Walks plain objects and arrays, replacing every value for which `match` is true.
+ * Used to swap image fields between references, data URLs and Blobs without listing each field.
+ */
+export const mapDeep = async <T>(value: unknown, match: (v: unknown) => v is T, transform: (v: T) => Promise<unknown>): Promise<unknown> => {
+  if (match(value)) return transform(value);
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(item => mapDeep(item, match, transform)));
+  }
+  if (value && typeof value === 'object' && !(value instanceof Blob)) {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([key, item]) => [key, await mapDeep(item, match, transform)] as const)
+    );
+    return Object.fromEntries(entries);
+  }
+  return value;
+};
+
+// Moves embedded data URLs into the store, e.g. after importing a project file
+export const internAssets = async <T>(value: T): Promise<T> => {
+  return await mapDeep(value, isEmbeddedFile, async (dataUrl: string) => putAsset(await dataUrlToBlob(dataUrl))) as T;
+};
+
+// Replaces references with data URLs, for project files that must stand alone
+export const embedAssets = async <T>(value: T): Promise<T> => {
+  return await mapDeep(value, (v): v is string => isAssetRef(v), toDataUrl) as T;
+};
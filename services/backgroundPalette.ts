@@ -0,0 +1,34 @@
+
+import { CardBackground } from '../types';
+import { normalizeBackground } from './projectFile';
+import { embedAssets, internAssets } from './assetStore';
+
+const STORAGE_KEY = 'tweetgen:background-palette';
+
+/**
+ * Reads the custom backgrounds saved in this browser, dropping entries that no longer validate.
+ * Image backgrounds are stored with the image inline and moved back into the asset store here.
+ */
+export const loadBackgroundPalette = async (): Promise<CardBackground[]> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const raw: unknown = stored ? JSON.parse(stored) : [];
+    if (!Array.isArray(raw)) return [];
+    const backgrounds = raw.flatMap((entry) => {
+      try {
+        return [normalizeBackground(entry)];
+      } catch {
+        return [];
+      }
+    });
+    return await internAssets(backgrounds);
+  } catch (e) {
+    console.error("Failed to load background palette", e);
+    return [];
+  }
+};
+
+// Throws when the browser's storage is full, which large image backgrounds can cause
+export const saveBackgroundPalette = async (palette: CardBackground[]): Promise<void> => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(await embedAssets(palette)));
+};
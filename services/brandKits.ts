@@ -0,0 +1,151 @@
+
+import { BrandKit, TweetData, UploadedFont } from '../types';
+import { ProjectFileError, normalizeBrandKit, upgradeFontFamily } from './projectFile';
+import { embedAssets, internAssets } from './assetStore';
+import { cloneBackground } from './cardBackground';
+
+/**
+ * Brand kits: named author identities with their preferred backgrounds, accent and fonts.
+ * Kits live in this browser and travel between browsers as `.tweetgen-kits.json` files.
+ */
+
+const STORAGE_KEY = 'tweetgen:brand-kits';
+const ACTIVE_KIT_KEY = 'tweetgen:active-brand-kit';
+
+export const BRAND_KITS_FILE_EXTENSION = '.tweetgen-kits.json';
+const FILE_FORMAT = 'tweetgen-brand-kits';
+// Version 2 replaced the kit's single `fontFamily` with header and body text styles
+const FILE_VERSION = 2;
+
+// Reads the kits saved in this browser, dropping entries that no longer validate
+export const loadBrandKits = async (): Promise<BrandKit[]> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const raw: unknown = stored ? JSON.parse(stored) : [];
+    if (!Array.isArray(raw)) return [];
+    const kits = raw.flatMap((entry, index) => {
+      try {
+        // Stored kits carry no version; upgrading leaves newer kits untouched
+        return [normalizeBrandKit(upgradeFontFamily(entry), `kits[${index}]`)];
+      } catch {
+        return [];
+      }
+    });
+    return await internAssets(kits);
+  } catch (e) {
+    console.error("Failed to load brand kits", e);
+    return [];
+  }
+};
+
+// Throws when the browser's storage is full
+export const saveBrandKits = async (kits: BrandKit[]): Promise<void> => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(await embedAssets(kits)));
+};
+
+// The kit new projects start from
+export const loadActiveBrandKitId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_KIT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const saveActiveBrandKitId = (id: string | null) => {
+  try {
+    if (id) localStorage.setItem(ACTIVE_KIT_KEY, id);
+    else localStorage.removeItem(ACTIVE_KIT_KEY);
+  } catch (e) {
+    console.error("Failed to save active brand kit", e);
+  }
+};
+
+/**
+ * The kit fields a slide can update; name and preferred backgrounds are left to the caller.
+ * `projectFonts` are the project's uploaded fonts, of which the kit keeps those the slide uses.
+ */
+export const getSlideBrand = (slide: TweetData, projectFonts: UploadedFont[]): Omit<BrandKit, 'id' | 'name' | 'backgrounds'> => ({
+  displayName: slide.displayName,
+  handle: slide.handle,
+  avatarUrl: slide.avatarUrl,
+  badge: slide.badge,
+  badgeIconUrl: slide.badgeIconUrl,
+  accentColor: slide.accentColor,
+  headerFont: { ...slide.headerFont },
+  bodyFont: { ...slide.bodyFont },
+  fonts: projectFonts.filter(font => font.src === slide.headerFont.font || font.src === slide.bodyFont.font),
+});
+
+// A kit holding the slide's author, background, accent and fonts
+export const createBrandKit = (name: string, slide: TweetData, projectFonts: UploadedFont[]): BrandKit => ({
+  id: crypto.randomUUID(),
+  ...getSlideBrand(slide, projectFonts),
+  name,
+  backgrounds: [cloneBackground(slide.background)],
+});
+
+/**
+ * Puts the kit's author, first preferred background, accent and fonts on a slide.
+ * Thread replies written by the slide's previous author switch to the kit's author too.
+ * The caller adds the kit's uploaded fonts to the project.
+ */
+export const applyBrandKit = (slide: TweetData, kit: BrandKit): TweetData => {
+  // Thread replies only take the blue, gold and grey badges
+  const replyBadge = kit.badge === 'custom' ? 'none' : kit.badge;
+  return {
+    ...slide,
+    displayName: kit.displayName,
+    handle: kit.handle,
+    avatarUrl: kit.avatarUrl,
+    badge: kit.badge,
+    badgeIconUrl: kit.badgeIconUrl,
+    accentColor: kit.accentColor,
+    headerFont: { ...kit.headerFont },
+    bodyFont: { ...kit.bodyFont },
+    background: kit.backgrounds.length > 0 ? cloneBackground(kit.backgrounds[0]) : slide.background,
+    threadReplies: slide.threadReplies.map(reply => reply.handle === slide.handle
+      ? { ...reply, displayName: kit.displayName, handle: kit.handle, avatarUrl: kit.avatarUrl, badge: replyBadge }
+      : reply),
+  };
+};
+
+// Imported kits replace saved kits with the same id and are added after the rest
+export const mergeBrandKits = (current: BrandKit[], imported: BrandKit[]): BrandKit[] => {
+  const importedIds = new Set(imported.map(kit => kit.id));
+  return [...current.filter(kit => !importedIds.has(kit.id)), ...imported];
+};
+
+export const serializeBrandKitsFile = async (kits: BrandKit[]): Promise<string> => {
+  return JSON.stringify({
+    format: FILE_FORMAT,
+    version: FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    kits: await embedAssets(kits),
+  }, null, 2);
+};
+
+/**
+ * Parses and validates a kit file.
+ * Throws ProjectFileError with a user-facing message for any malformed input.
+ */
+export const parseBrandKitsFile = async (text: string): Promise<BrandKit[]> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError('O arquivo não é um JSON válido.');
+  }
+  if (typeof raw !== 'object' || raw === null || (raw as { format?: unknown }).format !== FILE_FORMAT) {
+    throw new ProjectFileError('Este arquivo não é um arquivo de kits de marca.');
+  }
+  const { version, kits } = raw as { version?: unknown; kits?: unknown };
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ProjectFileError('Versão do arquivo inválida.');
+  }
+  if (version > FILE_VERSION) {
+    throw new ProjectFileError('Este arquivo foi criado por uma versão mais nova do app. Atualize a página e tente novamente.');
+  }
+  if (!Array.isArray(kits)) throw new ProjectFileError('O arquivo não contém uma lista de kits.');
+  return internAssets(kits.map((kit, index) => normalizeBrandKit(version < 2 ? upgradeFontFamily(kit) : kit, `kits[${index}]`)));
+};
@@ -0,0 +1,113 @@
+
+import { CardBackground, GradientStop } from '../types';
+import { hexToRgb, isHexColor } from './color';
+import { resolveImageUrl } from './assetStore';
+
+/**
+ * Turns a CardBackground into CSS for the card and its previews.
+ *
+ * Image backgrounds need their own blurred layer, so for them backgroundToCss
+ * only returns the color shown around the blur; TweetCard draws the image.
+ */
+
+const stopsToCss = (stops: GradientStop[]) => {
+  return [...stops]
+    .sort((a, b) => a.position - b.position)
+    .map(stop => `${stop.color} ${stop.position}%`)
+    .join(', ');
+};
+
+// Tileable grayscale noise tinted with the ink color
+const noiseImage = (inkColor: string) => {
+  const { r, g, b } = hexToRgb(inkColor);
+  const svg = `<svg xmlns='http://www.w3.org/2000/svg' width='200' height='200'>`
+    + `<filter id='n'><feTurbulence type='fractalNoise' baseFrequency='0.8' numOctaves='3' stitchTiles='stitch'/>`
+    + `<feColorMatrix values='0 0 0 0 ${r / 255} 0 0 0 0 ${g / 255} 0 0 0 0 ${b / 255} 0.7 0 0 0 -0.15'/></filter>`
+    + `<rect width='100%' height='100%' filter='url(#n)'/></svg>`;
+  return `url("data:image/svg+xml,${encodeURIComponent(svg)}")`;
+};
+
+export const backgroundToCss = (background: CardBackground): string => {
+  switch (background.type) {
+    case 'solid':
+      return background.color;
+    case 'gradient':
+      return background.shape === 'radial'
+        ? `radial-gradient(circle at center, ${stopsToCss(background.stops)})`
+        : `linear-gradient(${background.angle}deg, ${stopsToCss(background.stops)})`;
+    case 'image':
+      return '#000000';
+    case 'pattern': {
+      const { color, inkColor, size } = background;
+      const tile = `0 0 / ${size}px ${size}px`;
+      if (background.pattern === 'dots') {
+        const radius = Math.max(1, size * 0.08);
+        return `radial-gradient(${inkColor} ${radius}px, transparent ${radius + 1}px) ${tile}, ${color}`;
+      }
+      if (background.pattern === 'grid') {
+        return `linear-gradient(${inkColor} 2px, transparent 2px) ${tile}, linear-gradient(90deg, ${inkColor} 2px, transparent 2px) ${tile}, ${color}`;
+      }
+      return `${noiseImage(inkColor)} ${tile}, ${color}`;
+    }
+  }
+};
+
+// CSS for small swatches; image backgrounds show the image itself
+export const backgroundToPreviewCss = (background: CardBackground): string => {
+  if (background.type !== 'image') return backgroundToCss(background);
+  return `linear-gradient(rgba(0, 0, 0, ${background.dim}), rgba(0, 0, 0, ${background.dim})), center / cover url("${resolveImageUrl(background.src)}")`;
+};
+
+export const cloneBackground = (background: CardBackground): CardBackground => {
+  return background.type === 'gradient'
+    ? { ...background, stops: background.stops.map(stop => ({ ...stop })) }
+    : { ...background };
+};
+
+export const isSameBackground = (a: CardBackground, b: CardBackground): boolean => {
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+const SIDE_ANGLES: Record<string, number> = {
+  'to top': 0,
+  'to top right': 45,
+  'to right': 90,
+  'to bottom right': 135,
+  'to bottom': 180,
+  'to bottom left': 225,
+  'to left': 270,
+  'to top left': 315,
+};
+
+/**
+ * Reads the CSS strings saved before backgrounds were structured: hex colors and
+ * `linear-gradient(<angle or side>, <hex> [<percent>], ...)`, which covers every old preset.
+ * Returns null for anything else.
+ */
+export const parseLegacyBackground = (css: string): CardBackground | null => {
+  const value = css.trim();
+  if (isHexColor(value)) return { type: 'solid', color: value.toUpperCase() };
+
+  const match = /^linear-gradient\((.*)\)$/i.exec(value);
+  if (!match) return null;
+  const parts = match[1].split(',').map(part => part.trim());
+
+  let angle = 180;
+  const direction = parts[0].toLowerCase();
+  if (/^-?\d+(\.\d+)?deg$/.test(direction)) {
+    angle = parseFloat(direction);
+    parts.shift();
+  } else if (direction in SIDE_ANGLES) {
+    angle = SIDE_ANGLES[direction];
+    parts.shift();
+  }
+
+  const stops: GradientStop[] = [];
+  for (const [index, part] of parts.entries()) {
+    const [color, position] = part.split(/\s+/);
+    if (!isHexColor(color)) return null;
+    const fallback = parts.length > 1 ? (index / (parts.length - 1)) * 100 : 0;
+    stops.push({ color: color.toUpperCase(), position: position ? parseFloat(position) : fallback });
+  }
+  return stops.length >= 2 ? { type: 'gradient', shape: 'linear', angle, stops } : null;
+};
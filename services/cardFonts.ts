@@ -0,0 +1,200 @@
+
+import interNormal from '@fontsource-variable/inter/files/inter-latin-wght-normal.woff2';
+import interItalic from '@fontsource-variable/inter/files/inter-latin-wght-italic.woff2';
+import robotoNormal from '@fontsource-variable/roboto/files/roboto-latin-wght-normal.woff2';
+import robotoItalic from '@fontsource-variable/roboto/files/roboto-latin-wght-italic.woff2';
+import montserratNormal from '@fontsource-variable/montserrat/files/montserrat-latin-wght-normal.woff2';
+import montserratItalic from '@fontsource-variable/montserrat/files/montserrat-latin-wght-italic.woff2';
+import loraNormal from '@fontsource-variable/lora/files/lora-latin-wght-normal.woff2';
+import loraItalic from '@fontsource-variable/lora/files/lora-latin-wght-italic.woff2';
+import playfairNormal from '@fontsource-variable/playfair-display/files/playfair-display-latin-wght-normal.woff2';
+import playfairItalic from '@fontsource-variable/playfair-display/files/playfair-display-latin-wght-italic.woff2';
+import poppins400 from '@fontsource/poppins/files/poppins-latin-400-normal.woff2';
+import poppins400Italic from '@fontsource/poppins/files/poppins-latin-400-italic.woff2';
+import poppins500 from '@fontsource/poppins/files/poppins-latin-500-normal.woff2';
+import poppins600 from '@fontsource/poppins/files/poppins-latin-600-normal.woff2';
+import poppins700 from '@fontsource/poppins/files/poppins-latin-700-normal.woff2';
+import poppins700Italic from '@fontsource/poppins/files/poppins-latin-700-italic.woff2';
+import poppins800 from '@fontsource/poppins/files/poppins-latin-800-normal.woff2';
+import type { CSSProperties } from 'react';
+import { CardFontId, TextStyle, TweetData, UploadedFont } from '../types';
+import { CARD_FONTS, MAX_FONT_FILE_SIZE, getCardFont } from '../constants';
+import { getAssetBlob, isAssetRef, putAsset } from './assetStore';
+import { blobToDataUrl } from './imageUtils';
+
+/**
+ * Fonts for card text: the typefaces bundled with the app and fonts uploaded to a project.
+ *
+ * Both are registered through the FontFace API, so the page never fetches fonts from
+ * a third party. html-to-image can't see FontFace fonts, so exports pass it the
+ * @font-face rules from getFontEmbedCss, with every file inlined as a data URL.
+ */
+
+interface FontFile {
+  url: string;
+  weight: string; // A single weight, or "min max" for variable files
+  style: 'normal' | 'italic';
+}
+
+const variableFiles = (id: CardFontId, normal: string, italic: string): FontFile[] => {
+  const weight = getCardFont(id).weights.join(' ');
+  return [{ url: normal, weight, style: 'normal' }, { url: italic, weight, style: 'italic' }];
+};
+
+// Latin files only: Portuguese and English need nothing else, and emoji use the system font
+const BUNDLED_FONT_FILES: Record<CardFontId, FontFile[]> = {
+  inter: variableFiles('inter', interNormal, interItalic),
+  roboto: variableFiles('roboto', robotoNormal, robotoItalic),
+  montserrat: variableFiles('montserrat', montserratNormal, montserratItalic),
+  lora: variableFiles('lora', loraNormal, loraItalic),
+  playfair: variableFiles('playfair', playfairNormal, playfairItalic),
+  poppins: [
+    { url: poppins400, weight: '400', style: 'normal' },
+    { url: poppins400Italic, weight: '400', style: 'italic' },
+    { url: poppins500, weight: '500', style: 'normal' },
+    { url: poppins600, weight: '600', style: 'normal' },
+    { url: poppins700, weight: '700', style: 'normal' },
+    { url: poppins700Italic, weight: '700', style: 'italic' },
+    { url: poppins800, weight: '800', style: 'normal' },
+  ],
+};
+
+const FONT_FILE_EXTENSIONS = ['.ttf', '.otf', '.woff', '.woff2'];
+
+export const FONT_FILE_ACCEPT = FONT_FILE_EXTENSIONS.join(',');
+
+export const isUploadedFont = (font: string): boolean => isAssetRef(font);
+
+// Uploaded fonts are registered under a name taken from their content hash, so equal files share it
+const getFontFamily = (font: string): string => {
+  return isUploadedFont(font) ? `Uploaded ${font.split(':')[1].slice(0, 16)}` : getCardFont(font).family;
+};
+
+export const getFontStack = (font: string): string => {
+  return `"${getFontFamily(font)}", ${isUploadedFont(font) ? 'sans-serif' : getCardFont(font).fallback}`;
+};
+
+export const getFontName = (font: string, uploaded: UploadedFont[]): string => {
+  if (!isUploadedFont(font)) return getCardFont(font).name;
+  return uploaded.find(item => item.src === font)?.name ?? 'Fonte enviada';
+};
+
+// Inline style for text set in a TextStyle
+export const textStyleToCss = (style: TextStyle): CSSProperties => ({
+  fontFamily: getFontStack(style.font),
+  fontWeight: style.weight,
+  letterSpacing: `${style.letterSpacing}em`,
+});
+
+// Adds fonts to a project's list, skipping files it already has
+export const mergeUploadedFonts = (current: UploadedFont[], added: UploadedFont[]): UploadedFont[] => {
+  const known = new Set(current.map(font => font.src));
+  return [...current, ...added.filter(font => !known.has(font.src))];
+};
+
+export const getSlideTextStyles = (slide: TweetData): TextStyle[] => [slide.headerFont, slide.bodyFont];
+
+// --- Registration ---
+
+let bundledRegistered = false;
+
+// Adds every bundled face to the document; the browser downloads each file the first time text uses it
+export const registerBundledFonts = () => {
+  if (bundledRegistered) return;
+  bundledRegistered = true;
+  for (const font of CARD_FONTS) {
+    for (const file of BUNDLED_FONT_FILES[font.id]) {
+      document.fonts.add(new FontFace(font.family, `url("${file.url}")`, { weight: file.weight, style: file.style }));
+    }
+  }
+};
+
+const uploadedFaces = new Map<string, Promise<void>>();
+
+/**
+ * Loads an uploaded font from the asset store and adds it to the document.
+ * Rejects when the file isn't a font the browser can read.
+ */
+export const registerUploadedFont = (src: string): Promise<void> => {
+  let registration = uploadedFaces.get(src);
+  if (!registration) {
+    registration = (async () => {
+      const face = new FontFace(getFontFamily(src), await (await getAssetBlob(src)).arrayBuffer());
+      await face.load();
+      document.fonts.add(face);
+    })();
+    // A failed load may succeed later, e.g. once the project's assets are interned
+    registration.catch(() => uploadedFaces.delete(src));
+    uploadedFaces.set(src, registration);
+  }
+  return registration;
+};
+
+/**
+ * Stores and registers a font file picked by the user.
+ * Throws with a user-facing message for unsupported, oversized or unreadable files.
+ */
+export const addFontFile = async (file: File): Promise<UploadedFont> => {
+  const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+  if (!FONT_FILE_EXTENSIONS.includes(extension)) {
+    throw new Error('Use um arquivo de fonte TTF, OTF, WOFF ou WOFF2.');
+  }
+  if (file.size > MAX_FONT_FILE_SIZE) {
+    throw new Error(`A fonte deve ter no máximo ${MAX_FONT_FILE_SIZE / 1024 / 1024} MB.`);
+  }
+  const src = await putAsset(file);
+  try {
+    await registerUploadedFont(src);
+  } catch {
+    throw new Error('Não foi possível ler este arquivo de fonte.');
+  }
+  return { src, name: file.name.slice(0, file.name.length - extension.length) || 'Fonte enviada' };
+};
+
+// --- Export ---
+
+const faceRule = (family: string, dataUrl: string, weight?: string, style?: string) => {
+  const descriptors = [`font-family: "${family}"`, `src: url("${dataUrl}")`];
+  if (weight) descriptors.push(`font-weight: ${weight}`);
+  if (style) descriptors.push(`font-style: ${style}`);
+  return `@font-face { ${descriptors.join('; ')}; }`;
+};
+
+const embedCache = new Map<string, Promise<string>>();
+
+const buildEmbedCss = async (font: string): Promise<string> => {
+  if (isUploadedFont(font)) {
+    return faceRule(getFontFamily(font), await blobToDataUrl(await getAssetBlob(font)));
+  }
+  const { id, family } = getCardFont(font);
+  const rules = await Promise.all(BUNDLED_FONT_FILES[id].map(async (file) => {
+    const response = await fetch(file.url);
+    if (!response.ok) throw new Error(`Failed to load ${file.url}`);
+    return faceRule(family, await blobToDataUrl(await response.blob()), file.weight, file.style);
+  }));
+  return rules.join('\n');
+};
+
+/**
+ * @font-face rules with the fonts of the given styles inlined, for html-to-image's `fontEmbedCSS`.
+ * Also waits until the faces those styles draw with (plus regular and **bold** markup,
+ * upright and italic) are loaded in the document, so nothing renders in a fallback font.
+ */
+export const getFontEmbedCss = async (styles: TextStyle[]): Promise<string> => {
+  const fonts = Array.from(new Set(styles.map(style => style.font)));
+  const rules = await Promise.all(fonts.map((font) => {
+    let css = embedCache.get(font);
+    if (!css) {
+      css = buildEmbedCss(font);
+      css.catch(() => embedCache.delete(font));
+      embedCache.set(font, css);
+    }
+    return css;
+  }));
+  await Promise.all(fonts.filter(isUploadedFont).map(registerUploadedFont));
+  await Promise.all(styles.flatMap((style) => {
+    const weights = Array.from(new Set([style.weight, 400, 700]));
+    return weights.flatMap(weight => ['normal', 'italic'].map(fontStyle => document.fonts.load(`${fontStyle} ${weight} 16px ${getFontStack(style.font)}`)));
+  }));
+  return rules.join('\n');
+};
@@ -0,0 +1,34 @@
+
+import { TweetLanguage } from '../types';
+
+/**
+ * Locale-aware text drawn on the card itself, as X shows it in each language.
+ */
+
+export const CARD_LABELS: Record<TweetLanguage, { replyingTo: string; promoted: string; views: string }> = {
+  'pt-BR': { replyingTo: 'Em resposta a', promoted: 'Promovido', views: 'Visualizações' },
+  en: { replyingTo: 'Replying to', promoted: 'Promoted', views: 'Views' },
+};
+
+/**
+ * Formats a count the way X does: "12,4 mil" in pt-BR, "12.4K" in English.
+ * Decimals are truncated rather than rounded, so 12,499 never shows as 12.5K.
+ */
+export const formatCompactNumber = (value: number, locale: TweetLanguage): string => {
+  const count = Math.max(0, Math.floor(value));
+  const magnitude = count >= 1e9 ? 1e9 : count >= 1e6 ? 1e6 : count >= 1e3 ? 1e3 : 1;
+  const truncated = Math.floor(count / (magnitude / 10)) * (magnitude / 10);
+  return new Intl.NumberFormat(locale, { notation: 'compact', maximumFractionDigits: 1 }).format(truncated);
+};
+
+/**
+ * Formats the footer's date line, e.g. "10:42 AM · Oct 19, 2026" or "10:42 · 19 de out. de 2026".
+ * Returns an empty string when `postedAt` isn't a valid date.
+ */
+export const formatPostedAt = (postedAt: string, locale: TweetLanguage): string => {
+  const date = new Date(postedAt);
+  if (Number.isNaN(date.getTime())) return '';
+  const time = new Intl.DateTimeFormat(locale, { hour: 'numeric', minute: '2-digit' }).format(date);
+  const day = new Intl.DateTimeFormat(locale, { day: 'numeric', month: 'short', year: 'numeric' }).format(date);
+  return `${time} · ${day}`;
+};
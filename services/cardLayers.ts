@@ -0,0 +1,125 @@
+
+import { CanvasFormat, CardElement, CardLayer, CardLayerType, CardTarget, LayerTarget, Position, TweetData } from '../types';
+
+/**
+ * Drag and resize targets: the card's fixed elements, which keep an offset and scale
+ * in their own TweetData fields, and the free-form layers, addressed as `layer:<id>`.
+ * Interaction code goes through these helpers so it works the same on both.
+ */
+
+// Where each draggable card element keeps its offset and scale
+const ELEMENT_POSITION_KEYS = {
+  header: 'headerPosition',
+  content: 'contentPosition',
+  tweetImage: 'tweetImagePosition',
+  footer: 'footerPosition',
+} as const satisfies Record<CardElement, keyof TweetData>;
+
+const ELEMENT_SCALE_KEYS = {
+  header: 'headerScale',
+  content: 'contentScale',
+  tweetImage: 'tweetImageScale',
+  footer: 'footerScale',
+} as const satisfies Record<CardElement, keyof TweetData>;
+
+const LAYER_PREFIX = 'layer:';
+
+export const isLayerTarget = (target: CardTarget): target is LayerTarget => target.startsWith(LAYER_PREFIX);
+
+export const getLayerTarget = (id: string): LayerTarget => `${LAYER_PREFIX}${id}`;
+
+const getLayerId = (target: LayerTarget): string => target.slice(LAYER_PREFIX.length);
+
+export const findLayer = (slide: TweetData, target: LayerTarget): CardLayer | undefined => {
+  const id = getLayerId(target);
+  return slide.layers.find(layer => layer.id === id);
+};
+
+export const updateLayer = (slide: TweetData, id: string, patch: Partial<CardLayer>): TweetData => ({
+  ...slide,
+  layers: slide.layers.map(layer => layer.id === id ? { ...layer, ...patch } as CardLayer : layer),
+});
+
+// Offset of an element from where the card's flow puts it, or a layer's top-left corner
+export const getTargetPosition = (slide: TweetData, target: CardTarget): Position => {
+  if (!isLayerTarget(target)) return slide[ELEMENT_POSITION_KEYS[target]];
+  return findLayer(slide, target)?.position ?? { x: 0, y: 0 };
+};
+
+export const getTargetScale = (slide: TweetData, target: CardTarget): number => {
+  if (!isLayerTarget(target)) return slide[ELEMENT_SCALE_KEYS[target]];
+  return findLayer(slide, target)?.scale ?? 1;
+};
+
+export const setTargetPosition = (slide: TweetData, target: CardTarget, position: Position): TweetData => {
+  if (!isLayerTarget(target)) return { ...slide, [ELEMENT_POSITION_KEYS[target]]: position };
+  return updateLayer(slide, getLayerId(target), { position });
+};
+
+export const setTargetScale = (slide: TweetData, target: CardTarget, scale: number): TweetData => {
+  if (!isLayerTarget(target)) return { ...slide, [ELEMENT_SCALE_KEYS[target]]: scale };
+  return updateLayer(slide, getLayerId(target), { scale });
+};
+
+// --- Layers ---
+
+// Rough unscaled size of a new layer, used to center it on the card
+const NEW_LAYER_SIZES: Record<CardLayerType, { width: number; height: number }> = {
+  text: { width: 240, height: 80 },
+  sticker: { width: 160, height: 160 },
+  arrow: { width: 360, height: 140 },
+  shape: { width: 600, height: 120 },
+  swipe: { width: 340, height: 100 },
+};
+
+/**
+ * A new layer of the given type with its defaults, centered on the card.
+ * "Swipe" pills start in the bottom-right corner, inside the padding, where carousels usually put them.
+ */
+export const createLayer = (type: CardLayerType, canvas: CanvasFormat): CardLayer => {
+  const size = NEW_LAYER_SIZES[type];
+  const common = {
+    id: crypto.randomUUID(),
+    position: type === 'swipe'
+      ? { x: canvas.width - canvas.paddingX - size.width, y: canvas.height - canvas.paddingY - size.height }
+      : { x: Math.round((canvas.width - size.width) / 2), y: Math.round((canvas.height - size.height) / 2) },
+    scale: 1,
+    rotation: 0,
+    opacity: 1,
+    locked: false,
+    hidden: false,
+  };
+  switch (type) {
+    case 'text':
+      return { ...common, type, text: 'Texto', textStyle: 'body', fontSize: 64, color: null, background: null };
+    case 'sticker':
+      return { ...common, type, emoji: '🔥' };
+    case 'arrow':
+      return { ...common, type, style: 'straight', color: null };
+    case 'shape':
+      // Highlighter yellow, see-through so text under it stays readable
+      return { ...common, type, shape: 'highlight', color: '#FDE047', width: size.width, height: size.height, opacity: 0.5 };
+    case 'swipe':
+      return { ...common, type, text: 'Arraste', color: null };
+  }
+};
+
+export const cloneLayer = (layer: CardLayer): CardLayer => ({ ...layer, position: { ...layer.position } });
+
+// A copy with a new id, nudged down and right so it doesn't hide the original
+export const duplicateLayer = (layer: CardLayer): CardLayer => ({
+  ...layer,
+  id: crypto.randomUUID(),
+  position: { x: layer.position.x + 40, y: layer.position.y + 40 },
+  locked: false,
+});
+
+// Moves a layer one step up (1) or down (-1) the stack
+export const moveLayer = (layers: CardLayer[], id: string, direction: 1 | -1): CardLayer[] => {
+  const index = layers.findIndex(layer => layer.id === id);
+  const target = index + direction;
+  if (index === -1 || target < 0 || target >= layers.length) return layers;
+  const moved = [...layers];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+};
@@ -0,0 +1,91 @@
+
+import { CardBackground, TweetData } from '../types';
+import { Rgb, contrastRatio, hexToRgb, mixRgb, rgbToHex } from './color';
+
+/**
+ * Resolves the card's text colors against its background.
+ *
+ * The background is reduced to a few sample colors (a solid color, every gradient stop,
+ * a pattern's base and ink, or an image's dimmed average), and each default color is
+ * checked against the worst of them so text stays readable wherever it lands.
+ */
+
+export interface CardTheme {
+  isDark: boolean; // Light text on a dark background; also drives borders and dividers
+  name: string;
+  handle: string;
+  body: string;
+  accent: string;
+}
+
+// WCAG AA for normal text: handles and labels shrink to normal text size once the card is seen on a phone
+export const MIN_TEXT_CONTRAST = 4.5;
+
+// WCAG AA for large text, enough for entities inside the body, which stays large even downscaled
+export const MIN_ACCENT_CONTRAST = 3;
+
+const TONES = {
+  dark: { text: '#0F1419', secondary: '#536471' },
+  light: { text: '#FFFFFF', secondary: '#9CA3AF' },
+};
+
+const DEFAULT_ACCENT = '#1D9BF0';
+
+// Steps tried when pulling a color toward the text color until it passes
+const CONTRAST_STEPS = 20;
+
+const BLACK: Rgb = { r: 0, g: 0, b: 0 };
+
+const backgroundSamples = (background: CardBackground): Rgb[] => {
+  switch (background.type) {
+    case 'solid':
+      return [hexToRgb(background.color)];
+    case 'gradient':
+      return background.stops.map(stop => hexToRgb(stop.color));
+    case 'image':
+      return [mixRgb(hexToRgb(background.averageColor), BLACK, background.dim)];
+    case 'pattern': {
+      // Ink only covers part of each tile, so it counts at half strength
+      const base = hexToRgb(background.color);
+      return [base, mixRgb(base, hexToRgb(background.inkColor), 0.5)];
+    }
+  }
+};
+
+// Lowest contrast of a color against any part of the background
+export const backgroundContrast = (color: string, background: CardBackground): number => {
+  const rgb = hexToRgb(color);
+  return Math.min(...backgroundSamples(background).map(sample => contrastRatio(rgb, sample)));
+};
+
+// Whether white text reads better on the background than near-black text
+export const isDarkBackground = (background: CardBackground): boolean => {
+  return backgroundContrast(TONES.light.text, background) > backgroundContrast(TONES.dark.text, background);
+};
+
+// Moves a color toward `textColor` just far enough to pass AA, keeping as much of its hue as possible
+const ensureContrast = (color: string, textColor: string, background: CardBackground, minContrast: number): string => {
+  const from = hexToRgb(color);
+  const to = hexToRgb(textColor);
+  for (let step = 0; step <= CONTRAST_STEPS; step++) {
+    const candidate = rgbToHex(mixRgb(from, to, step / CONTRAST_STEPS));
+    if (backgroundContrast(candidate, background) >= minContrast) return candidate;
+  }
+  return textColor;
+};
+
+/**
+ * Text colors for a slide. Explicit color fields win as they are; the rest follow the
+ * tone, with secondary and accent colors adjusted until they meet AA on the background.
+ */
+export const getCardTheme = (data: TweetData): CardTheme => {
+  const isDark = data.textTone === 'auto' ? isDarkBackground(data.background) : data.textTone === 'light';
+  const tone = isDark ? TONES.light : TONES.dark;
+  return {
+    isDark,
+    name: data.nameColor ?? tone.text,
+    handle: data.handleColor ?? ensureContrast(tone.secondary, tone.text, data.background, MIN_TEXT_CONTRAST),
+    body: data.bodyColor ?? tone.text,
+    accent: data.accentColor ?? ensureContrast(DEFAULT_ACCENT, tone.text, data.background, MIN_ACCENT_CONTRAST),
+  };
+};
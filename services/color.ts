@@ -0,0 +1,49 @@
+
+/**
+ * Color parsing and WCAG luminance helpers.
+ */
+
+export interface Rgb {
+  r: number; // 0 to 255
+  g: number;
+  b: number;
+}
+
+const HEX_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export const isHexColor = (value: string): boolean => HEX_PATTERN.test(value);
+
+// Accepts #rgb and #rrggbb; anything else is treated as black
+export const hexToRgb = (hex: string): Rgb => {
+  const match = HEX_PATTERN.exec(hex.trim());
+  if (!match) return { r: 0, g: 0, b: 0 };
+  const digits = match[1].length === 3 ? match[1].split('').map(d => d + d).join('') : match[1];
+  const value = parseInt(digits, 16);
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
+};
+
+export const rgbToHex = ({ r, g, b }: Rgb): string => {
+  return `#${[r, g, b].map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+};
+
+// Relative luminance as defined by WCAG 2.x, from 0 (black) to 1 (white)
+export const relativeLuminance = ({ r, g, b }: Rgb): number => {
+  const linear = (channel: number) => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+};
+
+// WCAG contrast ratio between two colors, from 1 (identical) to 21 (black on white)
+export const contrastRatio = (a: Rgb, b: Rgb): number => {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+// Linear blend in sRGB; amount 0 returns `from`, 1 returns `to`
+export const mixRgb = (from: Rgb, to: Rgb, amount: number): Rgb => ({
+  r: from.r + (to.r - from.r) * amount,
+  g: from.g + (to.g - from.g) * amount,
+  b: from.b + (to.b - from.b) * amount,
+});
@@ -0,0 +1,188 @@
+
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import { flushSync } from 'react-dom';
+import * as htmlToImage from 'html-to-image';
+import JSZip from 'jszip';
+import { TweetCard } from '../components/TweetCard';
+import { TweetData, ExportSettings, CanvasFormat } from '../types';
+import { getFontEmbedCss, getSlideTextStyles } from './cardFonts';
+
+export interface ExportProgress {
+  completed: number;
+  total: number;
+}
+
+const THUMBNAIL_WIDTH = 240;
+
+const noop = () => {};
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+// Extension for an exported data URL, from the type the browser actually encoded:
+// canvases fall back to PNG for types they can't encode, like WebP in Safari
+export const getFileExtension = (dataUrl: string): string => {
+  const type = dataUrl.slice('data:'.length, dataUrl.indexOf(';'));
+  return FILE_EXTENSIONS[type] ?? 'png';
+};
+
+/**
+ * html-to-image options shared by single and carousel exports.
+ * The filter drops editing chrome (resize handles, inputs, guidelines).
+ * `fontEmbedCss` replaces html-to-image's own font lookup, which can't see the card fonts.
+ */
+export const getExportOptions = (settings: ExportSettings, canvas: CanvasFormat, fontEmbedCss: string) => ({
+  quality: settings.quality,
+  // JPEG has no alpha channel, so it always gets a solid backdrop
+  backgroundColor: settings.transparentBackground && settings.format !== 'jpeg' ? undefined : '#ffffff',
+  width: canvas.width,
+  height: canvas.height,
+  pixelRatio: settings.pixelRatio,
+  fontEmbedCSS: fontEmbedCss,
+  style: {
+    transform: 'none',
+    transformOrigin: 'top left',
+    margin: '0',
+  },
+  filter: (node: HTMLElement) => {
+    // Exclude resize handles and inputs from screenshot if any remain
+    return !node.className?.includes?.('resize') && node.tagName !== 'TEXTAREA' && node.tagName !== 'INPUT' && !node.className?.includes?.('absolute');
+  }
+});
+
+const snapshotElement = async (element: HTMLElement, settings: ExportSettings, canvas: CanvasFormat, fontEmbedCss: string): Promise<string> => {
+  const options = getExportOptions(settings, canvas, fontEmbedCss);
+
+  switch (settings.format) {
+    case 'png':
+      return htmlToImage.toPng(element, options);
+    case 'webp': {
+      // html-to-image has no WebP helper, so encode from its canvas
+      const canvas = await htmlToImage.toCanvas(element, options);
+      return canvas.toDataURL('image/webp', settings.quality);
+    }
+    default:
+      return htmlToImage.toJpeg(element, options);
+  }
+};
+
+export const downloadFile = (href: string, filename: string) => {
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = href;
+  link.click();
+};
+
+const createAbortError = () => new DOMException('Export cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
+/**
+ * Mounts a slide outside the viewport at full size and hands the card node to `capture`,
+ * along with the slide's fonts as @font-face rules.
+ * The node is always unmounted, even if the capture fails.
+ */
+const withOffscreenSlide = async <T>(
+  slide: TweetData,
+  canvas: CanvasFormat,
+  transparentBackground: boolean,
+  capture: (node: HTMLElement, fontEmbedCss: string) => Promise<T>
+): Promise<T> => {
+  // Loaded before mounting so auto-fit measures the text in its real font
+  const fontEmbedCss = await getFontEmbedCss(getSlideTextStyles(slide));
+
+  const host = document.createElement('div');
+  host.style.position = 'fixed';
+  host.style.left = '-100000px';
+  host.style.top = '0';
+  host.style.pointerEvents = 'none';
+  document.body.appendChild(host);
+
+  const root = createRoot(host);
+  try {
+    flushSync(() => {
+      root.render(
+        React.createElement(TweetCard, {
+          data: slide,
+          canvas,
+          onMouseDown: noop,
+          onTouchStart: noop,
+          onResizeStart: noop,
+          onDoubleClick: noop,
+          editingField: null,
+          onEditChange: noop,
+          onEditBlur: noop,
+          transparentBackground,
+        })
+      );
+    });
+
+    // Wait for avatars and media to decode so they make it into the snapshot
+    const images = Array.from(host.querySelectorAll('img'));
+    await Promise.all(images.map(img => img.decode().catch(() => undefined)));
+
+    return await capture(host.firstElementChild as HTMLElement, fontEmbedCss);
+  } finally {
+    root.unmount();
+    host.remove();
+  }
+};
+
+/**
+ * Renders a slide off-screen with the given settings and returns it as a data URL.
+ */
+export const exportSlide = (slide: TweetData, canvas: CanvasFormat, settings: ExportSettings): Promise<string> => {
+  const transparent = settings.transparentBackground && settings.format !== 'jpeg';
+  return withOffscreenSlide(slide, canvas, transparent, (node, fontEmbedCss) => snapshotElement(node, settings, canvas, fontEmbedCss));
+};
+
+/**
+ * Renders a small JPEG preview of a slide, used for the project library.
+ */
+export const exportThumbnail = (slide: TweetData, canvas: CanvasFormat): Promise<Blob | null> => {
+  const settings: ExportSettings = { format: 'jpeg', quality: 0.8, pixelRatio: 1, transparentBackground: false };
+  return withOffscreenSlide(slide, canvas, false, (node, fontEmbedCss) => htmlToImage.toBlob(node, {
+    ...getExportOptions(settings, canvas, fontEmbedCss),
+    type: 'image/jpeg',
+    canvasWidth: THUMBNAIL_WIDTH,
+    canvasHeight: Math.round(THUMBNAIL_WIDTH * canvas.height / canvas.width),
+  }));
+};
+
+/**
+ * Renders every slide in order and bundles them as slide-01.jpg, slide-02.jpg, ...
+ * Rejects with an AbortError when the signal is aborted between slides.
+ */
+export const exportCarouselAsZip = async (
+  slides: TweetData[],
+  canvas: CanvasFormat,
+  settings: ExportSettings,
+  onProgress?: (progress: ExportProgress) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const zip = new JSZip();
+  const total = slides.length;
+  const digits = Math.max(2, String(total).length);
+
+  onProgress?.({ completed: 0, total });
+
+  for (let i = 0; i < total; i++) {
+    if (signal?.aborted) throw createAbortError();
+
+    const dataUrl = await exportSlide(slides[i], canvas, settings);
+    const fileName = `slide-${String(i + 1).padStart(digits, '0')}.${getFileExtension(dataUrl)}`;
+    zip.file(fileName, dataUrl.split(',')[1], { base64: true });
+
+    onProgress?.({ completed: i + 1, total });
+  }
+
+  if (signal?.aborted) throw createAbortError();
+
+  return zip.generateAsync({ type: 'blob' });
+};
@@ -0,0 +1,163 @@
+
+/**
+ * Crop, rotate, flip and color adjustments for uploaded images.
+ *
+ * Edits are baked into a new data URL with a canvas, so the stored image is
+ * exactly what the card and exports show. Adjustments are applied per pixel
+ * with the same formulas as the CSS filters used for the live preview, which
+ * keeps the result identical in browsers without `CanvasRenderingContext2D.filter`.
+ */
+
+// Percentages, as in CSS filters: 100 leaves brightness, contrast and saturation unchanged
+export interface ImageAdjustments {
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  grayscale: number; // 0 to 100
+}
+
+// Fractions (0 to 1) of the image after rotation and flipping
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type ImageRotation = 0 | 90 | 180 | 270;
+
+export interface ImageEdit {
+  rotation: ImageRotation; // Clockwise
+  flipX: boolean;
+  flipY: boolean;
+  crop: CropRect;
+  circle: boolean; // Clip to the circle inscribed in the crop (transparent corners)
+  adjustments: ImageAdjustments;
+}
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = { brightness: 100, contrast: 100, saturation: 100, grayscale: 0 };
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+const JPEG_QUALITY = 0.92;
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Não foi possível abrir a imagem.'));
+    image.src = src;
+  });
+};
+
+// Size of the image once rotated; quarter turns swap width and height
+export const getOrientedSize = (width: number, height: number, rotation: ImageRotation) => {
+  return rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+};
+
+/**
+ * Largest crop of the given pixel aspect ratio centered on an image of the given size.
+ * A null aspect returns the whole image.
+ */
+export const getCenteredCrop = (aspect: number | null, width: number, height: number): CropRect => {
+  if (aspect === null) return { ...FULL_CROP };
+  if (width / height > aspect) {
+    const cropWidth = (aspect * height) / width;
+    return { x: (1 - cropWidth) / 2, y: 0, width: cropWidth, height: 1 };
+  }
+  const cropHeight = width / (aspect * height);
+  return { x: 0, y: (1 - cropHeight) / 2, width: 1, height: cropHeight };
+};
+
+// CSS filter equivalent of the adjustments, used for the live preview
+export const adjustmentsToFilter = (adjustments: ImageAdjustments): string => {
+  const { brightness, contrast, saturation, grayscale } = adjustments;
+  return `brightness(${brightness}%) contrast(${contrast}%) saturate(${saturation}%) grayscale(${grayscale}%)`;
+};
+
+const isDefaultAdjustments = (adjustments: ImageAdjustments) => {
+  return (Object.keys(DEFAULT_ADJUSTMENTS) as (keyof ImageAdjustments)[])
+    .every(key => adjustments[key] === DEFAULT_ADJUSTMENTS[key]);
+};
+
+// Saturation matrix from the Filter Effects spec; grayscale is the same matrix at 1 - amount
+const saturationMatrix = (s: number) => [
+  0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s,
+  0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s,
+  0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s,
+];
+
+// Applies the filters in the same order as adjustmentsToFilter
+const applyAdjustments = (pixels: Uint8ClampedArray, adjustments: ImageAdjustments) => {
+  const brightness = adjustments.brightness / 100;
+  const contrast = adjustments.contrast / 100;
+  const saturate = saturationMatrix(adjustments.saturation / 100);
+  const gray = saturationMatrix(1 - adjustments.grayscale / 100);
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    let r = pixels[i] / 255;
+    let g = pixels[i + 1] / 255;
+    let b = pixels[i + 2] / 255;
+
+    r = Math.min(1, r * brightness);
+    g = Math.min(1, g * brightness);
+    b = Math.min(1, b * brightness);
+
+    r = Math.min(1, Math.max(0, (r - 0.5) * contrast + 0.5));
+    g = Math.min(1, Math.max(0, (g - 0.5) * contrast + 0.5));
+    b = Math.min(1, Math.max(0, (b - 0.5) * contrast + 0.5));
+
+    for (const m of [saturate, gray]) {
+      const nr = m[0] * r + m[1] * g + m[2] * b;
+      const ng = m[3] * r + m[4] * g + m[5] * b;
+      const nb = m[6] * r + m[7] * g + m[8] * b;
+      r = Math.min(1, Math.max(0, nr));
+      g = Math.min(1, Math.max(0, ng));
+      b = Math.min(1, Math.max(0, nb));
+    }
+
+    pixels[i] = r * 255;
+    pixels[i + 1] = g * 255;
+    pixels[i + 2] = b * 255;
+  }
+};
+
+/**
+ * Renders the edited image and returns it as a data URL.
+ * JPEG sources stay JPEG unless clipped to a circle; everything else becomes PNG to keep transparency.
+ */
+export const renderImageEdit = async (src: string, edit: ImageEdit): Promise<string> => {
+  const image = await loadImage(src);
+  const oriented = getOrientedSize(image.naturalWidth, image.naturalHeight, edit.rotation);
+  const cropX = Math.round(edit.crop.x * oriented.width);
+  const cropY = Math.round(edit.crop.y * oriented.height);
+  const width = Math.max(1, Math.round(edit.crop.width * oriented.width));
+  const height = Math.max(1, Math.round(edit.crop.height * oriented.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Seu navegador não suporta edição de imagens.');
+
+  if (edit.circle) {
+    ctx.beginPath();
+    ctx.ellipse(width / 2, height / 2, width / 2, height / 2, 0, 0, Math.PI * 2);
+    ctx.clip();
+  }
+
+  // Canvas transforms apply last-first: the image is rotated, then flipped, then shifted so the crop lands at 0,0
+  ctx.translate(oriented.width / 2 - cropX, oriented.height / 2 - cropY);
+  ctx.scale(edit.flipX ? -1 : 1, edit.flipY ? -1 : 1);
+  ctx.rotate((edit.rotation * Math.PI) / 180);
+  ctx.drawImage(image, -image.naturalWidth / 2, -image.naturalHeight / 2);
+
+  if (!isDefaultAdjustments(edit.adjustments)) {
+    const imageData = ctx.getImageData(0, 0, width, height);
+    applyAdjustments(imageData.data, edit.adjustments);
+    ctx.putImageData(imageData, 0, 0);
+  }
+
+  const keepJpeg = src.startsWith('data:image/jpeg') && !edit.circle;
+  return keepJpeg ? canvas.toDataURL('image/jpeg', JPEG_QUALITY) : canvas.toDataURL('image/png');
+};
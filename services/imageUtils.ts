@@ -0,0 +1,83 @@
+
+import { rgbToHex } from './color';
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  return (await fetch(dataUrl)).blob();
+};
+
+const IMAGE_QUALITY = 0.9;
+
+// Decodes with EXIF orientation applied; browsers that can't decode a type as a bitmap (e.g. SVG) fall back to <img>
+const decodeImage = async (blob: Blob): Promise<ImageBitmap | HTMLImageElement> => {
+  try {
+    return await createImageBitmap(blob, { imageOrientation: 'from-image' });
+  } catch {
+    const url = URL.createObjectURL(blob);
+    try {
+      const image = new Image();
+      image.src = url;
+      await image.decode();
+      return image;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+};
+
+/**
+ * Upright, downscaled and re-encoded copy of an image, so state never holds camera-sized originals.
+ * The longest side is capped at `maxDimension`. JPEGs stay JPEG; other types become WebP
+ * to keep transparency, or PNG where the browser can't encode WebP.
+ */
+export const normalizeImage = async (blob: Blob, maxDimension: number): Promise<Blob> => {
+  const image = await decodeImage(blob);
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Seu navegador não suporta o processamento de imagens.');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  if ('close' in image) image.close();
+
+  const type = /^image\/jpe?g$/.test(blob.type) ? 'image/jpeg' : 'image/webp';
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(result => result ? resolve(result) : reject(new Error('Falha ao comprimir a imagem.')), type, IMAGE_QUALITY);
+  });
+};
+
+// Side of the thumbnail an image's average color is sampled from
+const AVERAGE_SAMPLE_SIZE = 16;
+
+// Mean color of an image as drawn on black, which is what shows through its transparent parts on the card
+export const getAverageColor = async (blob: Blob): Promise<string> => {
+  const image = await decodeImage(blob);
+  const canvas = document.createElement('canvas');
+  canvas.width = AVERAGE_SAMPLE_SIZE;
+  canvas.height = AVERAGE_SAMPLE_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Seu navegador não suporta o processamento de imagens.');
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  if ('close' in image) image.close();
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const sum = { r: 0, g: 0, b: 0 };
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3] / 255;
+    sum.r += data[i] * alpha;
+    sum.g += data[i + 1] * alpha;
+    sum.b += data[i + 2] * alpha;
+  }
+  const pixels = data.length / 4;
+  return rgbToHex({ r: sum.r / pixels, g: sum.g / pixels, b: sum.b / pixels });
+};
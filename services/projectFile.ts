@@ -0,0 +1,525 @@
+
+import { CarouselState, TweetData, Position, BadgeType, EngagementStats, TweetLanguage, CardLayout, EmbeddedTweet, TweetMedia, CardBackground, GradientStop, BackgroundPattern, TextTone, BrandKit, TextStyle, UploadedFont, CardLayer, CardLayerType, LayerShape, ArrowStyle } from '../types';
+import { parseLegacyBackground } from './cardBackground';
+import { isHexColor } from './color';
+import { isAssetRef, isEmbeddedFile } from './assetStore';
+import { CANVAS_FORMATS, CARD_FONTS, DEFAULT_CANVAS_FORMAT, DEFAULT_TWEET_DATA, MAX_LAYERS, MAX_SLIDES, MAX_THREAD_REPLIES, MAX_TWEET_IMAGES } from '../constants';
+
+/**
+ * `.tweetgen.json` project files.
+ *
+ * Files carry a schema `version`. When the shape of a saved project changes,
+ * bump PROJECT_SCHEMA_VERSION and register a migration from the previous
+ * version in MIGRATIONS. Fields added to TweetData without a migration are
+ * filled from DEFAULT_TWEET_DATA on import. Projects saved in the browser go
+ * through the same migrations.
+ */
+
+export const PROJECT_FILE_EXTENSION = '.tweetgen.json';
+export const PROJECT_SCHEMA_VERSION = 4;
+
+const FILE_FORMAT = 'tweetgen';
+
+export interface ProjectFile {
+  format: typeof FILE_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string; // ISO date
+  state: CarouselState; // Images are embedded as data URLs
+}
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Runs a slide-level upgrade on every slide of a state
+const eachSlide = (upgrade: (slide: RawObject, path: string) => RawObject) => (state: RawObject): RawObject => {
+  if (!Array.isArray(state.slides)) return state;
+  return { ...state, slides: state.slides.map((slide, index) => isObject(slide) ? upgrade(slide, `slides[${index}]`) : slide) };
+};
+
+/**
+ * Each entry upgrades a carousel state from `version` to `version + 1`.
+ * Steps leave already-upgraded slides alone: browser saves from before records
+ * carried a version are read as version 1 whatever their shape.
+ */
+const MIGRATIONS: Record<number, (state: RawObject) => RawObject> = {
+  // A single `tweetImage` became the `tweetImages` grid
+  1: eachSlide(({ tweetImage, ...slide }) => {
+    if (slide.tweetImages !== undefined || typeof tweetImage !== 'string' || !tweetImage) return slide;
+    return { ...slide, tweetImages: [{ src: tweetImage, alt: '', focalPoint: { x: 0.5, y: 0.5 } }] };
+  }),
+  // CSS background strings became CardBackground objects
+  2: eachSlide((slide, path) => {
+    if (typeof slide.background !== 'string') return slide;
+    const background = parseLegacyBackground(slide.background);
+    if (!background) throw new ProjectFileError(`${path}.background não é um fundo reconhecido.`);
+    return { ...slide, background };
+  }),
+  // One card-wide `fontFamily` became the `headerFont` and `bodyFont` text styles
+  3: eachSlide(slide => upgradeFontFamily(slide) as RawObject),
+};
+
+/**
+ * Upgrades a raw carousel state saved at `fromVersion` to the current schema, ready for normalizeCarouselState.
+ */
+export const migrateCarouselState = (state: unknown, fromVersion: number): unknown => {
+  if (!isObject(state)) return state;
+  let migrated = state;
+  for (let version = fromVersion; version < PROJECT_SCHEMA_VERSION; version++) {
+    const step = MIGRATIONS[version];
+    if (!step) {
+      throw new ProjectFileError(`Não há migração da versão ${version} do arquivo.`);
+    }
+    migrated = step(migrated);
+  }
+  return migrated;
+};
+
+// --- Field validation ---
+
+const readString = (raw: RawObject, key: string, fallback: string, path: string): string => {
+  const value = raw[key];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'string') throw new ProjectFileError(`${path}.${key} deve ser um texto.`);
+  return value;
+};
+
+const readNumber = (raw: RawObject, key: string, fallback: number, path: string): number => {
+  const value = raw[key];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new ProjectFileError(`${path}.${key} deve ser um número.`);
+  return value;
+};
+
+const readBoolean = (raw: RawObject, key: string, fallback: boolean, path: string): boolean => {
+  const value = raw[key];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'boolean') throw new ProjectFileError(`${path}.${key} deve ser verdadeiro ou falso.`);
+  return value;
+};
+
+const readPosition = (raw: RawObject, key: string, fallback: Position, path: string): Position => {
+  const value = raw[key];
+  if (value === undefined) return { ...fallback };
+  if (!isObject(value)) throw new ProjectFileError(`${path}.${key} deve ser um objeto { x, y }.`);
+  return {
+    x: readNumber(value, 'x', fallback.x, `${path}.${key}`),
+    y: readNumber(value, 'y', fallback.y, `${path}.${key}`),
+  };
+};
+
+const BADGE_TYPES: BadgeType[] = ['none', 'blue', 'gold', 'grey', 'custom'];
+const LOCALES: TweetLanguage[] = ['pt-BR', 'en'];
+const LAYOUTS: CardLayout[] = ['single', 'quote', 'thread'];
+const TEXT_TONES: TextTone[] = ['auto', 'dark', 'light'];
+const FONT_IDS: string[] = CARD_FONTS.map(font => font.id);
+
+const readOneOf = <T extends string>(raw: RawObject, key: string, options: T[], fallback: T, path: string): T => {
+  const value = readString(raw, key, fallback, path);
+  if (!options.includes(value as T)) {
+    throw new ProjectFileError(`${path}.${key} deve ser um de: ${options.join(', ')}.`);
+  }
+  return value as T;
+};
+
+const readEmbeddedTweet = (raw: unknown, fallback: EmbeddedTweet, path: string): EmbeddedTweet => {
+  if (raw === undefined) return { ...fallback };
+  if (!isObject(raw)) throw new ProjectFileError(`${path} deve ser um objeto.`);
+  return {
+    displayName: readString(raw, 'displayName', fallback.displayName, path),
+    handle: readString(raw, 'handle', fallback.handle, path),
+    avatarUrl: readString(raw, 'avatarUrl', fallback.avatarUrl, path),
+    content: readString(raw, 'content', fallback.content, path),
+    badge: readOneOf(raw, 'badge', ['none', 'blue', 'gold', 'grey'], fallback.badge, path),
+    image: readNullableString(raw, 'image', path),
+  };
+};
+
+const readThreadReplies = (raw: RawObject, path: string): EmbeddedTweet[] => {
+  const fallback = DEFAULT_TWEET_DATA.threadReplies;
+  const value = raw.threadReplies;
+  if (value === undefined) return fallback.map(reply => ({ ...reply }));
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_THREAD_REPLIES) {
+    throw new ProjectFileError(`${path}.threadReplies deve ter de 1 a ${MAX_THREAD_REPLIES} respostas.`);
+  }
+  return value.map((reply, index) => readEmbeddedTweet(reply, fallback[0], `${path}.threadReplies[${index}]`));
+};
+
+const readTweetMedia = (raw: unknown, path: string): TweetMedia => {
+  if (!isObject(raw)) throw new ProjectFileError(`${path} deve ser um objeto.`);
+  const src = readString(raw, 'src', '', path);
+  if (!src) throw new ProjectFileError(`${path}.src não pode ser vazio.`);
+  const focalPoint = readPosition(raw, 'focalPoint', { x: 0.5, y: 0.5 }, path);
+  return {
+    src,
+    alt: readString(raw, 'alt', '', path),
+    focalPoint: { x: Math.min(1, Math.max(0, focalPoint.x)), y: Math.min(1, Math.max(0, focalPoint.y)) },
+  };
+};
+
+const readTweetImages = (raw: RawObject, path: string): TweetMedia[] => {
+  const value = raw.tweetImages;
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_TWEET_IMAGES) {
+    throw new ProjectFileError(`${path}.tweetImages deve ter no máximo ${MAX_TWEET_IMAGES} imagens.`);
+  }
+  return value.map((media, index) => readTweetMedia(media, `${path}.tweetImages[${index}]`));
+};
+
+const PATTERNS: BackgroundPattern[] = ['dots', 'grid', 'noise'];
+
+const readColor = (raw: RawObject, key: string, fallback: string, path: string): string => {
+  const value = readString(raw, key, fallback, path);
+  if (!isHexColor(value)) throw new ProjectFileError(`${path}.${key} deve ser uma cor hexadecimal.`);
+  return value;
+};
+
+const readNullableColor = (raw: RawObject, key: string, path: string): string | null => {
+  const value = readNullableString(raw, key, path);
+  if (value !== null && !isHexColor(value)) throw new ProjectFileError(`${path}.${key} deve ser uma cor hexadecimal ou null.`);
+  return value;
+};
+
+const readGradientStops = (raw: RawObject, path: string): GradientStop[] => {
+  const value = raw.stops;
+  if (!Array.isArray(value) || value.length < 2) {
+    throw new ProjectFileError(`${path}.stops deve ter pelo menos 2 cores.`);
+  }
+  return value.map((stop, index) => {
+    const stopPath = `${path}.stops[${index}]`;
+    if (!isObject(stop)) throw new ProjectFileError(`${stopPath} deve ser um objeto.`);
+    return {
+      color: readColor(stop, 'color', '#000000', stopPath),
+      position: Math.min(100, Math.max(0, readNumber(stop, 'position', 0, stopPath))),
+    };
+  });
+};
+
+const readBackgroundValue = (value: unknown, path: string): CardBackground => {
+  if (!isObject(value)) throw new ProjectFileError(`${path} deve ser um objeto.`);
+
+  const type = readOneOf(value, 'type', ['solid', 'gradient', 'image', 'pattern'], 'solid', path);
+  switch (type) {
+    case 'solid':
+      return { type, color: readColor(value, 'color', '#FFFFFF', path) };
+    case 'gradient':
+      return {
+        type,
+        shape: readOneOf(value, 'shape', ['linear', 'radial'], 'linear', path),
+        angle: readNumber(value, 'angle', 180, path),
+        stops: readGradientStops(value, path),
+      };
+    case 'image': {
+      const src = readString(value, 'src', '', path);
+      if (!src) throw new ProjectFileError(`${path}.src não pode ser vazio.`);
+      return {
+        type,
+        src,
+        blur: Math.max(0, readNumber(value, 'blur', 0, path)),
+        dim: Math.min(1, Math.max(0, readNumber(value, 'dim', 0, path))),
+        // Unknown for backgrounds saved before it was measured; mid gray keeps either text tone readable enough
+        averageColor: readColor(value, 'averageColor', '#808080', path),
+      };
+    }
+    case 'pattern':
+      return {
+        type,
+        pattern: readOneOf(value, 'pattern', PATTERNS, 'dots', path),
+        color: readColor(value, 'color', '#FFFFFF', path),
+        inkColor: readColor(value, 'inkColor', '#000000', path),
+        size: Math.max(4, readNumber(value, 'size', 40, path)),
+      };
+  }
+};
+
+/**
+ * Validates a background outside of a project, e.g. one saved to the personal palette.
+ */
+export const normalizeBackground = (raw: unknown): CardBackground => readBackgroundValue(raw, 'background');
+
+// Uploaded fonts are asset refs, or data URLs in project files until they are interned
+const isFontFile = (value: string) => isAssetRef(value) || isEmbeddedFile(value);
+
+/**
+ * Replaces the card-wide `fontFamily` of slides and brand kits saved before per-element
+ * typography with `headerFont` and `bodyFont` in that font. Anything else is returned as is.
+ */
+export const upgradeFontFamily = (raw: unknown): unknown => {
+  if (!isObject(raw) || raw.fontFamily === undefined) return raw;
+  const { fontFamily, ...rest } = raw;
+  if (typeof fontFamily !== 'string' || !FONT_IDS.includes(fontFamily)) return rest;
+  return {
+    ...rest,
+    headerFont: rest.headerFont ?? { ...DEFAULT_TWEET_DATA.headerFont, font: fontFamily },
+    bodyFont: rest.bodyFont ?? { ...DEFAULT_TWEET_DATA.bodyFont, font: fontFamily },
+  };
+};
+
+const readTextStyle = (raw: RawObject, key: string, fallback: TextStyle, path: string): TextStyle => {
+  const value = raw[key];
+  if (value === undefined) return { ...fallback };
+  if (!isObject(value)) throw new ProjectFileError(`${path}.${key} deve ser um objeto.`);
+
+  const stylePath = `${path}.${key}`;
+  const font = readString(value, 'font', fallback.font, stylePath);
+  if (!FONT_IDS.includes(font) && !isFontFile(font)) {
+    throw new ProjectFileError(`${stylePath}.font deve ser uma das fontes do app ou uma fonte enviada.`);
+  }
+  return {
+    font,
+    weight: Math.min(900, Math.max(100, readNumber(value, 'weight', fallback.weight, stylePath))),
+    letterSpacing: readNumber(value, 'letterSpacing', fallback.letterSpacing, stylePath),
+  };
+};
+
+const readUploadedFonts = (raw: RawObject, path: string): UploadedFont[] => {
+  const value = raw.fonts;
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new ProjectFileError(`${path}.fonts deve ser uma lista.`);
+  return value.map((font, index) => {
+    const fontPath = `${path}.fonts[${index}]`;
+    if (!isObject(font)) throw new ProjectFileError(`${fontPath} deve ser um objeto.`);
+    const src = readString(font, 'src', '', fontPath);
+    if (!isFontFile(src)) throw new ProjectFileError(`${fontPath}.src deve conter o arquivo da fonte.`);
+    return { src, name: readString(font, 'name', 'Fonte enviada', fontPath) };
+  });
+};
+
+const readEngagement = (raw: RawObject, path: string): EngagementStats => {
+  const fallback = DEFAULT_TWEET_DATA.engagement;
+  const value = raw.engagement;
+  if (value === undefined) return { ...fallback };
+  if (!isObject(value)) throw new ProjectFileError(`${path}.engagement deve ser um objeto.`);
+  const statsPath = `${path}.engagement`;
+  return {
+    replies: readNumber(value, 'replies', fallback.replies, statsPath),
+    reposts: readNumber(value, 'reposts', fallback.reposts, statsPath),
+    likes: readNumber(value, 'likes', fallback.likes, statsPath),
+    bookmarks: readNumber(value, 'bookmarks', fallback.bookmarks, statsPath),
+    views: readNumber(value, 'views', fallback.views, statsPath),
+  };
+};
+
+const readNullableString = (raw: RawObject, key: string, path: string): string | null => {
+  const value = raw[key];
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string') throw new ProjectFileError(`${path}.${key} deve ser um texto ou null.`);
+  return value;
+};
+
+const LAYER_TYPES: CardLayerType[] = ['text', 'sticker', 'arrow', 'shape', 'swipe'];
+const LAYER_SHAPES: LayerShape[] = ['highlight', 'rectangle', 'ellipse'];
+const ARROW_STYLES: ArrowStyle[] = ['straight', 'curved'];
+
+const readLayer = (raw: unknown, path: string): CardLayer => {
+  if (!isObject(raw)) throw new ProjectFileError(`${path} deve ser um objeto.`);
+  const id = readString(raw, 'id', '', path);
+  if (!id) throw new ProjectFileError(`${path}.id não pode ser vazio.`);
+  const common = {
+    id,
+    position: readPosition(raw, 'position', { x: 0, y: 0 }, path),
+    scale: readNumber(raw, 'scale', 1, path),
+    rotation: readNumber(raw, 'rotation', 0, path),
+    opacity: Math.min(1, Math.max(0, readNumber(raw, 'opacity', 1, path))),
+    locked: readBoolean(raw, 'locked', false, path),
+    hidden: readBoolean(raw, 'hidden', false, path),
+  };
+  const type = readOneOf(raw, 'type', LAYER_TYPES, 'text', path);
+  switch (type) {
+    case 'text':
+      return {
+        ...common,
+        type,
+        text: readString(raw, 'text', '', path),
+        textStyle: readOneOf(raw, 'textStyle', ['header', 'body'], 'body', path),
+        fontSize: readNumber(raw, 'fontSize', 64, path),
+        color: readNullableColor(raw, 'color', path),
+        background: readNullableColor(raw, 'background', path),
+      };
+    case 'sticker':
+      return { ...common, type, emoji: readString(raw, 'emoji', '', path) };
+    case 'arrow':
+      return { ...common, type, style: readOneOf(raw, 'style', ARROW_STYLES, 'straight', path), color: readNullableColor(raw, 'color', path) };
+    case 'shape':
+      return {
+        ...common,
+        type,
+        shape: readOneOf(raw, 'shape', LAYER_SHAPES, 'highlight', path),
+        color: readColor(raw, 'color', '#FDE047', path),
+        width: readNumber(raw, 'width', 600, path),
+        height: readNumber(raw, 'height', 120, path),
+      };
+    case 'swipe':
+      return { ...common, type, text: readString(raw, 'text', '', path), color: readNullableColor(raw, 'color', path) };
+  }
+};
+
+const readLayers = (raw: RawObject, path: string): CardLayer[] => {
+  const value = raw.layers;
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_LAYERS) {
+    throw new ProjectFileError(`${path}.layers deve ter no máximo ${MAX_LAYERS} camadas.`);
+  }
+  return value.map((layer, index) => readLayer(layer, `${path}.layers[${index}]`));
+};
+
+const readSlide = (raw: unknown, path: string): TweetData => {
+  if (!isObject(raw)) throw new ProjectFileError(`${path} deve ser um objeto.`);
+
+  return {
+    ...DEFAULT_TWEET_DATA,
+    displayName: readString(raw, 'displayName', DEFAULT_TWEET_DATA.displayName, path),
+    handle: readString(raw, 'handle', DEFAULT_TWEET_DATA.handle, path),
+    content: readString(raw, 'content', DEFAULT_TWEET_DATA.content, path),
+    avatarUrl: readString(raw, 'avatarUrl', DEFAULT_TWEET_DATA.avatarUrl, path),
+    badge: readOneOf(raw, 'badge', BADGE_TYPES, DEFAULT_TWEET_DATA.badge, path),
+    badgeIconUrl: readNullableString(raw, 'badgeIconUrl', path),
+    timestamp: readString(raw, 'timestamp', DEFAULT_TWEET_DATA.timestamp, path),
+    replyingTo: readString(raw, 'replyingTo', DEFAULT_TWEET_DATA.replyingTo, path),
+    isPromoted: readBoolean(raw, 'isPromoted', DEFAULT_TWEET_DATA.isPromoted, path),
+    layout: readOneOf(raw, 'layout', LAYOUTS, DEFAULT_TWEET_DATA.layout, path),
+    quotedTweet: readEmbeddedTweet(raw.quotedTweet, DEFAULT_TWEET_DATA.quotedTweet, `${path}.quotedTweet`),
+    threadReplies: readThreadReplies(raw, path),
+    background: raw.background === undefined ? DEFAULT_TWEET_DATA.background : readBackgroundValue(raw.background, `${path}.background`),
+    headerPosition: readPosition(raw, 'headerPosition', DEFAULT_TWEET_DATA.headerPosition, path),
+    headerScale: readNumber(raw, 'headerScale', DEFAULT_TWEET_DATA.headerScale, path),
+    contentPosition: readPosition(raw, 'contentPosition', DEFAULT_TWEET_DATA.contentPosition, path),
+    contentScale: readNumber(raw, 'contentScale', DEFAULT_TWEET_DATA.contentScale, path),
+    autoFitText: readBoolean(raw, 'autoFitText', DEFAULT_TWEET_DATA.autoFitText, path),
+    textTone: readOneOf(raw, 'textTone', TEXT_TONES, DEFAULT_TWEET_DATA.textTone, path),
+    nameColor: readNullableColor(raw, 'nameColor', path),
+    handleColor: readNullableColor(raw, 'handleColor', path),
+    bodyColor: readNullableColor(raw, 'bodyColor', path),
+    accentColor: readNullableColor(raw, 'accentColor', path),
+    headerFont: readTextStyle(raw, 'headerFont', DEFAULT_TWEET_DATA.headerFont, path),
+    bodyFont: readTextStyle(raw, 'bodyFont', DEFAULT_TWEET_DATA.bodyFont, path),
+    tweetImages: readTweetImages(raw, path),
+    tweetImagePosition: readPosition(raw, 'tweetImagePosition', DEFAULT_TWEET_DATA.tweetImagePosition, path),
+    tweetImageScale: readNumber(raw, 'tweetImageScale', DEFAULT_TWEET_DATA.tweetImageScale, path),
+    showFooter: readBoolean(raw, 'showFooter', DEFAULT_TWEET_DATA.showFooter, path),
+    postedAt: readString(raw, 'postedAt', DEFAULT_TWEET_DATA.postedAt, path),
+    source: readString(raw, 'source', DEFAULT_TWEET_DATA.source, path),
+    engagement: readEngagement(raw, path),
+    footerPosition: readPosition(raw, 'footerPosition', DEFAULT_TWEET_DATA.footerPosition, path),
+    footerScale: readNumber(raw, 'footerScale', DEFAULT_TWEET_DATA.footerScale, path),
+    locale: readOneOf(raw, 'locale', LOCALES, DEFAULT_TWEET_DATA.locale, path),
+    layers: readLayers(raw, path),
+  };
+};
+
+/**
+ * Validates a brand kit from local storage or a shared kit file.
+ * Kits carry the same author fields as a slide, so they go through the same readers.
+ */
+export const normalizeBrandKit = (raw: unknown, path: string): BrandKit => {
+  if (!isObject(raw)) throw new ProjectFileError(`${path} deve ser um objeto.`);
+  const name = readString(raw, 'name', '', path).trim();
+  if (!name) throw new ProjectFileError(`${path}.name não pode ser vazio.`);
+
+  const backgrounds = raw.backgrounds ?? [];
+  if (!Array.isArray(backgrounds)) throw new ProjectFileError(`${path}.backgrounds deve ser uma lista.`);
+
+  return {
+    id: readString(raw, 'id', '', path) || crypto.randomUUID(),
+    name,
+    displayName: readString(raw, 'displayName', DEFAULT_TWEET_DATA.displayName, path),
+    handle: readString(raw, 'handle', DEFAULT_TWEET_DATA.handle, path),
+    avatarUrl: readString(raw, 'avatarUrl', DEFAULT_TWEET_DATA.avatarUrl, path),
+    badge: readOneOf(raw, 'badge', BADGE_TYPES, DEFAULT_TWEET_DATA.badge, path),
+    badgeIconUrl: readNullableString(raw, 'badgeIconUrl', path),
+    backgrounds: backgrounds.map((background, index) => readBackgroundValue(background, `${path}.backgrounds[${index}]`)),
+    accentColor: readNullableColor(raw, 'accentColor', path),
+    headerFont: readTextStyle(raw, 'headerFont', DEFAULT_TWEET_DATA.headerFont, path),
+    bodyFont: readTextStyle(raw, 'bodyFont', DEFAULT_TWEET_DATA.bodyFont, path),
+    fonts: readUploadedFonts(raw, path),
+  };
+};
+
+/**
+ * Validates a raw carousel state and fills fields missing from older saves with defaults.
+ * Shared with IndexedDB loading so both paths accept the same shapes.
+ */
+export const normalizeCarouselState = (raw: unknown): CarouselState => {
+  if (!isObject(raw)) throw new ProjectFileError('O arquivo não contém um projeto (campo "state").');
+
+  const { slides } = raw;
+  if (!Array.isArray(slides) || slides.length === 0) {
+    throw new ProjectFileError('O projeto precisa ter pelo menos um slide.');
+  }
+  if (slides.length > MAX_SLIDES) {
+    throw new ProjectFileError(`O projeto tem ${slides.length} slides; o máximo é ${MAX_SLIDES}.`);
+  }
+
+  const canvasFormat = CANVAS_FORMATS.find(format => format.id === raw.canvasFormat)?.id ?? DEFAULT_CANVAS_FORMAT;
+  const activeSlideIndex = readNumber(raw, 'activeSlideIndex', 0, 'state');
+
+  return {
+    slides: slides.map((slide, index) => readSlide(slide, `slides[${index}]`)),
+    activeSlideIndex: Math.min(Math.max(0, Math.floor(activeSlideIndex)), slides.length - 1),
+    canvasFormat,
+    fonts: readUploadedFonts(raw, 'state'),
+  };
+};
+
+// --- Public API ---
+
+export const serializeProjectFile = (name: string, state: CarouselState): string => {
+  const file: ProjectFile = {
+    format: FILE_FORMAT,
+    version: PROJECT_SCHEMA_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    state,
+  };
+  // Pretty-printed so project files diff reasonably in git
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Parses, migrates and validates a project file.
+ * Throws ProjectFileError with a user-facing message for any malformed input.
+ */
+export const parseProjectFile = (text: string): { name: string; state: CarouselState } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError('O arquivo não é um JSON válido.');
+  }
+
+  if (!isObject(raw) || raw.format !== FILE_FORMAT) {
+    throw new ProjectFileError('Este arquivo não é um projeto do Gerador de Tweets.');
+  }
+
+  const version = raw.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ProjectFileError('Versão do arquivo inválida.');
+  }
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new ProjectFileError('Este arquivo foi criado por uma versão mais nova do app. Atualize a página e tente novamente.');
+  }
+
+  const name = typeof raw.name === 'string' && raw.name.trim() ? raw.name : 'Projeto importado';
+
+  return { name, state: normalizeCarouselState(migrateCarouselState(raw.state, version)) };
+};
+
+export const getProjectFileName = (name: string): string => {
+  const slug = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'projeto'}${PROJECT_FILE_EXTENSION}`;
+};
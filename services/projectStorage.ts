@@ -0,0 +1,275 @@
+
+import { CardTemplate, CarouselState, ProjectMeta } from '../types';
+import { PROJECT_SCHEMA_VERSION, migrateCarouselState, normalizeCarouselState } from './projectFile';
+import { createTemplateFromCarousel } from './templates';
+import { dataUrlToBlob } from './imageUtils';
+import { isAssetRef, isEmbeddedFile, getAssetBlob, putAsset, mapDeep } from './assetStore';
+
+const DB_NAME = 'tweetgen';
+const DB_VERSION = 2;
+
+// Metadata is kept apart from slide data so the library can list projects without loading every image
+const META_STORE = 'projects';
+const DATA_STORE = 'projectData';
+
+// Carousels saved as templates, added in version 2
+const TEMPLATE_STORE = 'templates';
+
+interface ProjectDataRecord {
+  id: string;
+  state: unknown; // CarouselState with embedded images stored as Blobs
+  version?: number; // PROJECT_SCHEMA_VERSION of `state`; missing on records saved before it was tracked, read as 1
+}
+
+interface TemplateRecord {
+  id: string;
+  name: string;
+  createdAt: number; // epoch ms
+  state: unknown; // Stored like ProjectDataRecord.state
+  version?: number;
+}
+
+// Another tab holds the database open at an older version, so this one can't upgrade it
+export class StorageBlockedError extends Error {
+  constructor() {
+    super('O app está aberto em outra aba com uma versão anterior. Feche as outras abas e recarregue a página para salvar seus projetos.');
+    this.name = 'StorageBlockedError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(DATA_STORE)) {
+        db.createObjectStore(DATA_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(TEMPLATE_STORE)) {
+        db.createObjectStore(TEMPLATE_STORE, { keyPath: 'id' });
+      }
+    };
+    let isBlocked = false;
+    request.onblocked = () => {
+      isBlocked = true;
+      reject(new StorageBlockedError());
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // The other tab closed after we gave up; the next call opens a fresh connection
+      if (isBlocked) {
+        db.close();
+        return;
+      }
+      // Step aside when a newer version of the app upgrades the database in another tab
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase().catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// --- Image <-> Blob conversion ---
+
+// Blobs from the last save, so unchanged data URLs aren't decoded again on every autosave
+let blobCache = new Map<string, Blob>();
+
+const toCachedBlob = async (dataUrl: string, cache: Map<string, Blob>): Promise<Blob> => {
+  const cached = blobCache.get(dataUrl) ?? cache.get(dataUrl);
+  if (cached) {
+    cache.set(dataUrl, cached);
+    return cached;
+  }
+  const blob = await dataUrlToBlob(dataUrl);
+  cache.set(dataUrl, blob);
+  return blob;
+};
+
+// Asset references and legacy data URLs are both stored as Blobs
+const serializeState = async (state: CarouselState): Promise<unknown> => {
+  const cache = new Map<string, Blob>();
+  const serialized = await mapDeep(
+    state,
+    (v): v is string => isAssetRef(v) || isEmbeddedFile(v),
+    (src: string) => isAssetRef(src) ? getAssetBlob(src) : toCachedBlob(src, cache)
+  );
+  blobCache = cache;
+  return serialized;
+};
+
+const deserializeState = async (stored: unknown, version = 1): Promise<CarouselState> => {
+  const state = await mapDeep(stored, (v): v is Blob => v instanceof Blob, putAsset);
+  return normalizeCarouselState(migrateCarouselState(state, version));
+};
+
+// --- Public API ---
+
+export const createProjectId = (): string => {
+  return crypto.randomUUID();
+};
+
+/**
+ * Lists saved projects, most recently modified first.
+ */
+export const listProjects = async (): Promise<ProjectMeta[]> => {
+  const db = await getDatabase();
+  const transaction = db.transaction(META_STORE, 'readonly');
+  const projects = await requestToPromise(transaction.objectStore(META_STORE).getAll() as IDBRequest<ProjectMeta[]>);
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<{ meta: ProjectMeta; state: CarouselState } | null> => {
+  const db = await getDatabase();
+  const transaction = db.transaction([META_STORE, DATA_STORE], 'readonly');
+  const [meta, data] = await Promise.all([
+    requestToPromise(transaction.objectStore(META_STORE).get(id) as IDBRequest<ProjectMeta | undefined>),
+    requestToPromise(transaction.objectStore(DATA_STORE).get(id) as IDBRequest<ProjectDataRecord | undefined>),
+  ]);
+  if (!meta || !data) return null;
+  return { meta, state: await deserializeState(data.state, data.version) };
+};
+
+/**
+ * Creates or updates a project. `createdAt` is preserved for existing projects.
+ */
+export const saveProject = async (
+  id: string,
+  name: string,
+  state: CarouselState,
+  thumbnail: Blob | null
+): Promise<ProjectMeta> => {
+  // Serialize before opening the transaction: IndexedDB transactions close on unrelated awaits
+  const serializedState = await serializeState(state);
+
+  const db = await getDatabase();
+  const existing = await requestToPromise(
+    db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(id) as IDBRequest<ProjectMeta | undefined>
+  );
+
+  const now = Date.now();
+  const meta: ProjectMeta = {
+    id,
+    name,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    slideCount: state.slides.length,
+    thumbnail: thumbnail ?? existing?.thumbnail ?? null,
+  };
+
+  const transaction = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+  transaction.objectStore(META_STORE).put(meta);
+  transaction.objectStore(DATA_STORE).put({ id, state: serializedState, version: PROJECT_SCHEMA_VERSION } satisfies ProjectDataRecord);
+  await transactionDone(transaction);
+  return meta;
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const db = await getDatabase();
+  const transaction = db.transaction(META_STORE, 'readwrite');
+  const store = transaction.objectStore(META_STORE);
+  const meta = await requestToPromise(store.get(id) as IDBRequest<ProjectMeta | undefined>);
+  if (meta) {
+    store.put({ ...meta, name, updatedAt: Date.now() });
+  }
+  await transactionDone(transaction);
+};
+
+export const duplicateProject = async (id: string, name: string): Promise<ProjectMeta | null> => {
+  const db = await getDatabase();
+  const readTransaction = db.transaction([META_STORE, DATA_STORE], 'readonly');
+  const [meta, data] = await Promise.all([
+    requestToPromise(readTransaction.objectStore(META_STORE).get(id) as IDBRequest<ProjectMeta | undefined>),
+    requestToPromise(readTransaction.objectStore(DATA_STORE).get(id) as IDBRequest<ProjectDataRecord | undefined>),
+  ]);
+  if (!meta || !data) return null;
+
+  // Blobs are immutable, so the copy can share them with the original
+  const now = Date.now();
+  const copy: ProjectMeta = { ...meta, id: createProjectId(), name, createdAt: now, updatedAt: now };
+
+  const writeTransaction = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+  writeTransaction.objectStore(META_STORE).put(copy);
+  writeTransaction.objectStore(DATA_STORE).put({ ...data, id: copy.id } satisfies ProjectDataRecord);
+  await transactionDone(writeTransaction);
+  return copy;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await getDatabase();
+  const transaction = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+  transaction.objectStore(META_STORE).delete(id);
+  transaction.objectStore(DATA_STORE).delete(id);
+  await transactionDone(transaction);
+};
+
+// --- Templates ---
+
+/**
+ * Lists the user's saved templates, newest first. Records that no longer validate are skipped.
+ */
+export const listTemplates = async (): Promise<CardTemplate[]> => {
+  const db = await getDatabase();
+  const transaction = db.transaction(TEMPLATE_STORE, 'readonly');
+  const records = await requestToPromise(transaction.objectStore(TEMPLATE_STORE).getAll() as IDBRequest<TemplateRecord[]>);
+  const templates = await Promise.all(records
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map(async (record) => {
+      try {
+        return createTemplateFromCarousel(record.id, record.name, await deserializeState(record.state, record.version), record.createdAt);
+      } catch (err) {
+        console.error('Skipping invalid template', record.id, err);
+        return null;
+      }
+    }));
+  return templates.filter((template): template is CardTemplate => template !== null);
+};
+
+// Saves a copy of the carousel as a new template
+export const saveTemplate = async (name: string, state: CarouselState): Promise<CardTemplate> => {
+  const record: TemplateRecord = { id: crypto.randomUUID(), name, createdAt: Date.now(), state: await serializeState(state), version: PROJECT_SCHEMA_VERSION };
+  const db = await getDatabase();
+  const transaction = db.transaction(TEMPLATE_STORE, 'readwrite');
+  transaction.objectStore(TEMPLATE_STORE).put(record);
+  await transactionDone(transaction);
+  return createTemplateFromCarousel(record.id, name, { ...state, activeSlideIndex: 0 }, record.createdAt);
+};
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+  const db = await getDatabase();
+  const transaction = db.transaction(TEMPLATE_STORE, 'readwrite');
+  transaction.objectStore(TEMPLATE_STORE).delete(id);
+  await transactionDone(transaction);
+};
@@ -0,0 +1,126 @@
+
+import { GenerateContentResponse, GoogleGenAI, Schema, Type } from "@google/genai";
+import { AiProvider, AiSchema, AiSettings } from "../../types";
+import { AiError } from "../aiErrors";
+
+const getAiClient = () => {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) {
+    throw new AiError('invalid-key', { message: "Chave da API do Gemini não encontrada. Defina a variável de ambiente API_KEY." });
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+const toGeminiSchema = (schema: AiSchema): Schema => {
+  switch (schema.type) {
+    case 'string':
+      return { type: Type.STRING, enum: schema.enum };
+    case 'array':
+      return {
+        type: Type.ARRAY,
+        items: toGeminiSchema(schema.items),
+        minItems: schema.minItems?.toString(),
+        maxItems: schema.maxItems?.toString(),
+      };
+    case 'object':
+      return {
+        type: Type.OBJECT,
+        properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+        required: schema.required,
+      };
+  }
+};
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+/**
+ * Gemini answers blocked prompts with an empty 200 response, so the reason has to be read from the payload.
+ */
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new AiError('safety', { cause: response.promptFeedback?.blockReasonMessage || finishReason });
+  }
+};
+
+/**
+ * Returns the first inline image of a response as a data URL.
+ */
+const extractImage = (response: GenerateContentResponse): string => {
+  assertNotBlocked(response);
+  const parts = response.candidates?.[0]?.content?.parts;
+  if (parts) {
+    for (const part of parts) {
+      if (part.inlineData && part.inlineData.data) {
+        return `data:image/png;base64,${part.inlineData.data}`;
+      }
+    }
+  }
+  throw new AiError('no-image');
+};
+
+export const createGeminiProvider = (settings: AiSettings): AiProvider => ({
+  editImage: async (base64Image, prompt, signal) => {
+    const ai = getAiClient();
+
+    // Remove header if present (e.g., "data:image/png;base64,")
+    const cleanBase64 = base64Image.split(',')[1] || base64Image;
+
+    const response = await ai.models.generateContent({
+      model: settings.geminiImageModel,
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              mimeType: 'image/png', // Assuming PNG for simplicity, usually safe for uploaded blobs converted
+              data: cleanBase64,
+            },
+          },
+          {
+            text: `Edit this image. ${prompt}. Return ONLY the image data.`,
+          },
+        ],
+      },
+      config: { abortSignal: signal },
+    });
+
+    return extractImage(response);
+  },
+
+  generateImage: async (prompt, signal) => {
+    const ai = getAiClient();
+
+    // Per documentation, use generateContent for nano banana series models
+    const response = await ai.models.generateContent({
+      model: settings.geminiImageModel,
+      contents: {
+        parts: [
+          {
+            text: `Generate an image of: ${prompt}`,
+          },
+        ],
+      },
+      config: { abortSignal: signal },
+    });
+
+    return extractImage(response);
+  },
+
+  generateText: async ({ prompt, schema }, signal) => {
+    const ai = getAiClient();
+
+    const response = await ai.models.generateContent({
+      model: settings.geminiTextModel,
+      contents: prompt,
+      config: schema
+        ? { responseMimeType: 'application/json', responseSchema: toGeminiSchema(schema), abortSignal: signal }
+        : { abortSignal: signal },
+    });
+
+    assertNotBlocked(response);
+    if (!response.text) {
+      throw new AiError('no-text');
+    }
+    return response.text;
+  },
+});
@@ -0,0 +1,83 @@
+
+import { AiProvider, AiSchema } from "../../types";
+import { wait } from "../aiRequest";
+
+/**
+ * Offline provider for development and tests. Responses depend only on the
+ * prompt, so the same input always yields the same placeholder output.
+ */
+
+const SAMPLE_SENTENCES = [
+  'Ninguém te conta isso, mas consistência vence talento quase sempre.',
+  'Três hábitos simples que mudaram a forma como eu trabalho.',
+  'O segredo não é fazer mais. É fazer o que importa primeiro.',
+  'Salve este post para lembrar depois.',
+  'Pequenas melhorias todos os dias viram resultados enormes.',
+  'Comece antes de se sentir pronto.',
+];
+
+// Short fake latency so loading states and cancellation can be exercised offline
+const LATENCY_MS = 800;
+
+const PALETTE = ['#1D9BF0', '#F91880', '#7856FF', '#FF7A00', '#00BA7C', '#FFD400'];
+
+// FNV-1a, enough to spread prompts over the samples deterministically
+const hash = (text: string): number => {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+};
+
+const pick = <T>(items: T[], seed: number): T => items[seed % items.length];
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const placeholderImage = (prompt: string): string => {
+  const seed = hash(prompt);
+  const from = pick(PALETTE, seed);
+  const to = pick(PALETTE, seed >>> 3);
+  const label = escapeXml(prompt.slice(0, 40));
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="1024" viewBox="0 0 1024 1024">
+<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${from}"/><stop offset="1" stop-color="${to}"/></linearGradient></defs>
+<rect width="1024" height="1024" fill="url(#g)"/>
+<text x="512" y="530" font-family="Inter, sans-serif" font-size="44" fill="#ffffff" text-anchor="middle">${label}</text>
+</svg>`;
+  const bytes = new TextEncoder().encode(svg);
+  return `data:image/svg+xml;base64,${btoa(String.fromCharCode(...bytes))}`;
+};
+
+const sampleFromSchema = (schema: AiSchema, seed: number): unknown => {
+  switch (schema.type) {
+    case 'string':
+      return schema.enum ? pick(schema.enum, seed) : pick(SAMPLE_SENTENCES, seed);
+    case 'array': {
+      const length = schema.maxItems ?? schema.minItems ?? 3;
+      return Array.from({ length }, (_, index) => sampleFromSchema(schema.items, seed + index));
+    }
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value], index) => [key, sampleFromSchema(value, seed + index)])
+      );
+  }
+};
+
+export const createMockProvider = (): AiProvider => ({
+  editImage: async (_base64Image, prompt, signal) => {
+    await wait(LATENCY_MS, signal);
+    return placeholderImage(`Editado: ${prompt}`);
+  },
+
+  generateImage: async (prompt, signal) => {
+    await wait(LATENCY_MS, signal);
+    return placeholderImage(prompt);
+  },
+
+  generateText: async ({ prompt, schema }, signal) => {
+    await wait(LATENCY_MS, signal);
+    const seed = hash(prompt);
+    return schema ? JSON.stringify(sampleFromSchema(schema, seed)) : pick(SAMPLE_SENTENCES, seed);
+  },
+});
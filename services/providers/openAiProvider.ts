@@ -0,0 +1,102 @@
+
+import { AiProvider, AiSchema, AiSettings } from "../../types";
+import { blobToDataUrl, dataUrlToBlob } from "../imageUtils";
+import { AiError, toAiError } from "../aiErrors";
+
+// OpenAI's strict structured outputs require every property to be listed as required
+const toJsonSchema = (schema: AiSchema): Record<string, unknown> => {
+  switch (schema.type) {
+    case 'string':
+      return schema.enum ? { type: 'string', enum: schema.enum } : { type: 'string' };
+    case 'array':
+      return { type: 'array', items: toJsonSchema(schema.items) };
+    case 'object':
+      return {
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])),
+        required: Object.keys(schema.properties),
+        additionalProperties: false,
+      };
+  }
+};
+
+// Structured outputs only accept an object at the root, so other schemas are wrapped in { result }
+const wrapRoot = (schema: AiSchema): AiSchema => {
+  return schema.type === 'object' ? schema : { type: 'object', properties: { result: schema }, required: ['result'] };
+};
+
+export const createOpenAiProvider = (settings: AiSettings): AiProvider => {
+  const baseUrl = settings.openAiBaseUrl.replace(/\/+$/, '');
+
+  const request = async (path: string, body: BodyInit, signal: AbortSignal, contentType?: string): Promise<any> => {
+    if (!settings.openAiApiKey) {
+      throw new AiError('invalid-key');
+    }
+    const headers: Record<string, string> = { Authorization: `Bearer ${settings.openAiApiKey}` };
+    if (contentType) headers['Content-Type'] = contentType;
+
+    const response = await fetch(`${baseUrl}${path}`, { method: 'POST', headers, body, signal });
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      const message = payload?.error?.message || `Request failed with status ${response.status}`;
+      // A 429 for an exhausted balance won't pass by retrying, unlike a rate limit
+      if (payload?.error?.code === 'insufficient_quota') throw new AiError('quota', { cause: message });
+      if (payload?.error?.code === 'content_policy_violation') throw new AiError('safety', { status: response.status, cause: message });
+      throw toAiError(Object.assign(new Error(message), { status: response.status }));
+    }
+    return payload;
+  };
+
+  // Image endpoints answer with base64 or a temporary URL depending on the model
+  const extractImage = async (payload: any, signal: AbortSignal): Promise<string> => {
+    const image = payload?.data?.[0];
+    if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+    if (image?.url) return blobToDataUrl(await (await fetch(image.url, { signal })).blob());
+    throw new AiError('no-image');
+  };
+
+  return {
+    editImage: async (base64Image, prompt, signal) => {
+      const form = new FormData();
+      form.append('model', settings.openAiImageModel);
+      form.append('prompt', prompt);
+      form.append('image', await dataUrlToBlob(base64Image), 'image.png');
+      return extractImage(await request('/images/edits', form, signal), signal);
+    },
+
+    generateImage: async (prompt, signal) => {
+      const payload = await request(
+        '/images/generations',
+        JSON.stringify({ model: settings.openAiImageModel, prompt, n: 1, size: '1024x1024' }),
+        signal,
+        'application/json'
+      );
+      return extractImage(payload, signal);
+    },
+
+    generateText: async ({ prompt, schema }, signal) => {
+      const payload = await request(
+        '/chat/completions',
+        JSON.stringify({
+          model: settings.openAiTextModel,
+          messages: [{ role: 'user', content: prompt }],
+          response_format: schema
+            ? { type: 'json_schema', json_schema: { name: 'result', strict: true, schema: toJsonSchema(wrapRoot(schema)) } }
+            : undefined,
+        }),
+        signal,
+        'application/json'
+      );
+
+      const choice = payload?.choices?.[0];
+      if (choice?.finish_reason === 'content_filter' || choice?.message?.refusal) {
+        throw new AiError('safety', { cause: choice.message?.refusal });
+      }
+      const text: string | undefined = choice?.message?.content;
+      if (!text) {
+        throw new AiError('no-text');
+      }
+      return schema && schema.type !== 'object' ? JSON.stringify(JSON.parse(text).result) : text;
+    },
+  };
+};
@@ -0,0 +1,56 @@
+
+import { CardTemplate, CarouselState, TweetData } from '../types';
+import { MAX_SLIDES } from '../constants';
+
+/**
+ * Template gallery: turns a template into slides for the current project, and the
+ * current carousel into a template. Templates carry layout, look and placeholder
+ * text; the author always comes from the slide being edited.
+ */
+
+const withAuthor = (slide: TweetData, author: TweetData): TweetData => ({
+  ...slide,
+  displayName: author.displayName,
+  handle: author.handle,
+  avatarUrl: author.avatarUrl,
+  badge: author.badge,
+  badgeIconUrl: author.badgeIconUrl,
+  // Replies by the template's author are the author continuing their own thread
+  threadReplies: slide.threadReplies.map(reply => reply.handle === slide.handle
+    ? { ...reply, displayName: author.displayName, handle: author.handle, avatarUrl: author.avatarUrl, badge: author.badge === 'custom' ? 'none' : author.badge }
+    : reply),
+});
+
+// Slides a template produces with `contentSlides` copies of its repeated slide, capped at MAX_SLIDES
+export const getTemplateSlideCount = (template: CardTemplate, contentSlides: number): number => {
+  if (template.repeatSlideIndex === null) return template.slides.length;
+  return Math.min(MAX_SLIDES, template.slides.length - 1 + Math.max(1, contentSlides));
+};
+
+export const getTemplateSlides = (template: CardTemplate, author: TweetData, contentSlides: number): TweetData[] => {
+  const repeatIndex = template.repeatSlideIndex;
+  if (repeatIndex === null) return template.slides.map(slide => withAuthor(slide, author));
+
+  const copies = getTemplateSlideCount(template, contentSlides) - (template.slides.length - 1);
+  const repeated = Array.from({ length: copies }, (_, index) => {
+    const slide = template.slides[repeatIndex];
+    return { ...slide, content: slide.content.split('{n}').join(String(index + 1)) };
+  });
+  return [
+    ...template.slides.slice(0, repeatIndex),
+    ...repeated,
+    ...template.slides.slice(repeatIndex + 1),
+  ].map(slide => withAuthor(slide, author));
+};
+
+// A saved carousel, listed under the user's templates
+export const createTemplateFromCarousel = (id: string, name: string, state: CarouselState, createdAt: number): CardTemplate => ({
+  id,
+  name,
+  description: `Salvo em ${new Date(createdAt).toLocaleDateString('pt-BR')}`,
+  kind: 'carousel',
+  canvasFormat: state.canvasFormat,
+  slides: state.slides,
+  repeatSlideIndex: null,
+  fonts: state.fonts,
+});
@@ -0,0 +1,61 @@
+
+import { CanvasFormat, TweetData } from '../types';
+import { CONTENT_FONT_SIZE, CONTENT_LINE_HEIGHT, HEADER_BLOCK_HEIGHT } from '../constants';
+
+// Average glyph width of Inter relative to the font size, for mixed-case text
+const AVERAGE_CHAR_WIDTH_RATIO = 0.5;
+
+// Headroom for word wrapping, which leaves lines shorter than the theoretical maximum
+const WRAP_EFFICIENCY = 0.85;
+
+const getTextGrid = (canvas: CanvasFormat, slide: Pick<TweetData, 'headerScale' | 'contentScale'>) => {
+  const fontSize = CONTENT_FONT_SIZE * slide.contentScale;
+  const availableWidth = canvas.width - canvas.paddingX * 2;
+  const availableHeight = canvas.height - canvas.paddingY * 2 - HEADER_BLOCK_HEIGHT * slide.headerScale;
+
+  return {
+    charsPerLine: Math.max(1, Math.floor(availableWidth / (fontSize * AVERAGE_CHAR_WIDTH_RATIO) * WRAP_EFFICIENCY)),
+    lines: Math.max(0, Math.floor(availableHeight / (fontSize * CONTENT_LINE_HEIGHT))),
+  };
+};
+
+/**
+ * Estimates how many characters of body text fit on a card without clipping,
+ * given the canvas size, header and the slide's current contentScale.
+ */
+export const estimateTextCapacity = (
+  canvas: CanvasFormat,
+  slide: Pick<TweetData, 'headerScale' | 'contentScale'>
+): number => {
+  const { charsPerLine, lines } = getTextGrid(canvas, slide);
+  return charsPerLine * lines;
+};
+
+/**
+ * Estimates whether `text` would run past the bottom of the card. Unlike
+ * estimateTextCapacity this accounts for line breaks, which start a new line.
+ */
+export const estimateTextOverflow = (
+  text: string,
+  canvas: CanvasFormat,
+  slide: Pick<TweetData, 'headerScale' | 'contentScale'>
+): boolean => {
+  const { charsPerLine, lines } = getTextGrid(canvas, slide);
+  const usedLines = text
+    .split('\n')
+    .reduce((total, paragraph) => total + Math.max(1, Math.ceil(Array.from(paragraph).length / charsPerLine)), 0);
+  return usedLines > lines;
+};
+
+/**
+ * Cuts text to at most `maxLength` characters, preferring a word boundary and ending with an ellipsis.
+ */
+export const truncateText = (text: string, maxLength: number): string => {
+  const chars = Array.from(text);
+  if (chars.length <= maxLength) return text;
+
+  const cut = chars.slice(0, Math.max(0, maxLength - 1)).join('');
+  const lastSpace = cut.lastIndexOf(' ');
+  const trimmed = lastSpace > cut.length * 0.6 ? cut.slice(0, lastSpace) : cut;
+  return `${trimmed.trimEnd()}…`;
+};
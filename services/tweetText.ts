@@ -0,0 +1,198 @@
+
+/**
+ * Tweet text rules, following X's twitter-text v3 configuration: text is
+ * NFC-normalized, Latin and punctuation code points weigh 1, everything
+ * else (CJK, most symbols) weighs 2, every emoji sequence weighs 2 and every
+ * URL weighs 23 regardless of its length.
+ */
+
+export const TWEET_CHAR_LIMITS = {
+  standard: 280,
+  premium: 25000,
+} as const;
+
+export const URL_WEIGHT = 23;
+const EMOJI_WEIGHT = 2;
+
+// Code point ranges that weigh 1; everything outside them weighs 2
+const LIGHT_RANGES: [number, number][] = [
+  [0x0000, 0x10ff], // Latin, Greek, Cyrillic, Hebrew, Arabic and other alphabetic scripts
+  [0x2000, 0x200d], // Spaces
+  [0x2010, 0x201f], // Dashes and quotes
+  [0x2032, 0x2037], // Primes
+];
+
+const TLDS = 'com|net|org|io|co|br|me|ly|app|dev|ai|gg|tv|info|xyz|link|site';
+
+// Scheme or www. URLs, plus bare domains on common TLDs (e.g. "example.com/path")
+export const URL_PATTERN = new RegExp(
+  `(?:https?:\\/\\/|www\\.)[^\\s<>"]+|\\b[a-z0-9][a-z0-9-]*(?:\\.[a-z0-9-]+)*\\.(?:${TLDS})\\b(?:\\/[^\\s<>"]*)?`,
+  'gi'
+);
+
+// Trailing punctuation is part of the sentence, not of the URL
+const TRAILING_PUNCTUATION = /[.,;:!?'")\]]+$/;
+
+const EMOJI_PATTERN = /[#*0-9]\uFE0F?\u20E3|\p{Regional_Indicator}{2}|\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier})?(?:\u200D\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier})?)*/gu;
+
+const COMBINING_MARK = /^\p{M}$/u;
+
+export interface TextRange {
+  start: number; // UTF-16 index, inclusive
+  end: number; // UTF-16 index, exclusive
+}
+
+/**
+ * Returns the URLs in `text`, without trailing punctuation.
+ */
+export const findUrls = (text: string): TextRange[] => {
+  const ranges: TextRange[] = [];
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const url = match[0].replace(TRAILING_PUNCTUATION, '');
+    const start = match.index ?? 0;
+    // Skip the domain part of an e-mail address
+    if (start > 0 && text[start - 1] === '@') continue;
+    ranges.push({ start, end: start + url.length });
+  }
+  return ranges;
+};
+
+const codePointWeight = (codePoint: number): number => {
+  return LIGHT_RANGES.some(([from, to]) => codePoint >= from && codePoint <= to) ? 1 : 2;
+};
+
+export interface TweetLength {
+  weightedLength: number;
+  limit: number;
+  overflowIndex: number | null; // UTF-16 index of the first character past the limit, in the original text
+}
+
+/**
+ * Counts `text` the way X does and finds where it goes past `limit`.
+ */
+export const measureTweet = (text: string, limit: number = TWEET_CHAR_LIMITS.standard): TweetLength => {
+  // Weighted segments in text order: URLs and emoji count as a unit, the rest per code point
+  const units: { start: number; end: number; weight: number }[] = [];
+  const urls = findUrls(text);
+  const emoji = Array.from(text.matchAll(EMOJI_PATTERN), (match) => ({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length }));
+
+  let urlIndex = 0;
+  let emojiIndex = 0;
+  let position = 0;
+  while (position < text.length) {
+    while (urlIndex < urls.length && urls[urlIndex].start < position) urlIndex++;
+    while (emojiIndex < emoji.length && emoji[emojiIndex].start < position) emojiIndex++;
+
+    if (urls[urlIndex]?.start === position) {
+      units.push({ ...urls[urlIndex], weight: URL_WEIGHT });
+      position = urls[urlIndex].end;
+    } else if (emoji[emojiIndex]?.start === position) {
+      units.push({ ...emoji[emojiIndex], weight: EMOJI_WEIGHT });
+      position = emoji[emojiIndex].end;
+    } else {
+      const codePoint = text.codePointAt(position)!;
+      const length = codePoint > 0xffff ? 2 : 1;
+      // X counts the NFC form, where a letter and its combining accent are one code point
+      const weight = position > 0 && COMBINING_MARK.test(String.fromCodePoint(codePoint)) ? 0 : codePointWeight(codePoint);
+      units.push({ start: position, end: position + length, weight });
+      position += length;
+    }
+  }
+
+  let weightedLength = 0;
+  let overflowIndex: number | null = null;
+  for (const unit of units) {
+    weightedLength += unit.weight;
+    if (overflowIndex === null && weightedLength > limit) overflowIndex = unit.start;
+  }
+  return { weightedLength, limit, overflowIndex };
+};
+
+// --- Rich text ---
+
+export type TweetTokenType = 'text' | 'hashtag' | 'mention' | 'url' | 'emoji';
+
+export interface TweetToken {
+  type: TweetTokenType;
+  text: string; // As typed, without markup
+  bold: boolean;
+  italic: boolean;
+}
+
+// **bold** anywhere; _italic_ only at word edges so snake_case, @user_names and URLs are left alone
+const MARKUP_PATTERN = /\*\*(?=\S)([\s\S]+?)\*\*|(?<![\p{L}\p{N}_@/])_(?=[^\s_])([^\n]+?)(?<=\S)_(?![\p{L}\p{N}_])/u;
+
+const HASHTAG_PATTERN = /(?<![\p{L}\p{N}_&/])[#＃][\p{L}\p{N}_]*\p{L}[\p{L}\p{N}_]*/gu;
+const MENTION_PATTERN = /(?<![\p{L}\p{N}_@!#$%&*.])[@＠][A-Za-z0-9_]{1,15}(?![A-Za-z0-9_@])/gu;
+
+interface StyledRun {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+}
+
+const parseMarkup = (text: string, bold: boolean, italic: boolean): StyledRun[] => {
+  const runs: StyledRun[] = [];
+  let rest = text;
+  let match: RegExpExecArray | null;
+  while ((match = MARKUP_PATTERN.exec(rest))) {
+    if (match.index > 0) runs.push({ text: rest.slice(0, match.index), bold, italic });
+    runs.push(...(match[1] !== undefined
+      ? parseMarkup(match[1], true, italic)
+      : parseMarkup(match[2], bold, true)));
+    rest = rest.slice(match.index + match[0].length);
+  }
+  if (rest) runs.push({ text: rest, bold, italic });
+  return runs;
+};
+
+const findEntities = (text: string): (TextRange & { type: TweetTokenType })[] => {
+  const entities: (TextRange & { type: TweetTokenType })[] = findUrls(text).map((range) => ({ ...range, type: 'url' as const }));
+  const patterns: [RegExp, TweetTokenType][] = [[HASHTAG_PATTERN, 'hashtag'], [MENTION_PATTERN, 'mention'], [EMOJI_PATTERN, 'emoji']];
+  for (const [pattern, type] of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      // URLs win over anything found inside them, e.g. the #fragment of a link
+      if (!entities.some((entity) => start < entity.end && end > entity.start)) {
+        entities.push({ start, end, type });
+      }
+    }
+  }
+  return entities.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Splits tweet text into styled tokens: **bold** and _italic_ markup is
+ * removed and applied as flags, and hashtags, mentions, URLs and emoji become
+ * their own tokens. Line breaks stay inside text tokens.
+ */
+export const tokenizeTweet = (text: string): TweetToken[] => {
+  const tokens: TweetToken[] = [];
+  for (const run of parseMarkup(text, false, false)) {
+    let position = 0;
+    for (const entity of findEntities(run.text)) {
+      if (entity.start > position) {
+        tokens.push({ type: 'text', text: run.text.slice(position, entity.start), bold: run.bold, italic: run.italic });
+      }
+      tokens.push({ type: entity.type, text: run.text.slice(entity.start, entity.end), bold: run.bold, italic: run.italic });
+      position = entity.end;
+    }
+    if (position < run.text.length) {
+      tokens.push({ type: 'text', text: run.text.slice(position), bold: run.bold, italic: run.italic });
+    }
+  }
+  return tokens;
+};
+
+// X shows links without the scheme and cuts long ones, like its link cards do
+const DISPLAY_URL_LENGTH = 26;
+
+/**
+ * Formats a URL the way X displays it: no scheme or www., ellipsis after the first characters.
+ */
+export const formatDisplayUrl = (url: string): string => {
+  const display = url.replace(/^https?:\/\//i, '').replace(/^www\./i, '');
+  const chars = Array.from(display);
+  return chars.length > DISPLAY_URL_LENGTH ? `${chars.slice(0, DISPLAY_URL_LENGTH - 1).join('')}…` : display;
+};
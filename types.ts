@@ -4,23 +4,239 @@ export interface Position {
   y: number;
 }
 
+// Elements of the card that can be dragged and scaled
+export type CardElement = 'header' | 'content' | 'tweetImage' | 'footer';
+
+// A layer addressed by its id, for the drag and resize code shared with the card elements
+export type LayerTarget = `layer:${string}`;
+
+export type CardTarget = CardElement | LayerTarget;
+
+export interface EngagementStats {
+  replies: number;
+  reposts: number;
+  likes: number;
+  bookmarks: number;
+  views: number;
+}
+
+export type BadgeType = 'none' | 'blue' | 'gold' | 'grey' | 'custom';
+
+export type CardLayout = 'single' | 'quote' | 'thread';
+
+// A smaller tweet drawn inside the card: the quoted tweet, or a reply in a thread
+export interface EmbeddedTweet {
+  displayName: string;
+  handle: string;
+  avatarUrl: string;
+  content: string;
+  badge: Exclude<BadgeType, 'custom'>;
+  image: string | null; // Only shown for quoted tweets
+}
+
+// One attached image; cards show 1 to MAX_TWEET_IMAGES of them in X's grid layouts
+export interface TweetMedia {
+  src: string;
+  alt: string; // Accessible description, used as the image's alt text
+  focalPoint: Position; // 0 to 1 on each axis; the spot kept in view when the grid crops the image
+}
+
+export interface GradientStop {
+  color: string; // Hex, e.g. #FF9A9E
+  position: number; // 0 to 100
+}
+
+export type BackgroundPattern = 'dots' | 'grid' | 'noise';
+
+// What the card is drawn on; services/cardBackground.ts turns it into CSS
+export type CardBackground =
+  | { type: 'solid'; color: string }
+  | { type: 'gradient'; shape: 'linear' | 'radial'; angle: number; stops: GradientStop[] } // Angle in degrees, linear only; 2 or more stops
+  | { type: 'image'; src: string; blur: number; dim: number; averageColor: string } // Blur in card pixels; dim is a 0 to 1 black overlay; averageColor is the undimmed image's mean, for text contrast
+  | { type: 'pattern'; pattern: BackgroundPattern; color: string; inkColor: string; size: number }; // Size of one tile in card pixels
+
+export type CardFontId = 'inter' | 'roboto' | 'poppins' | 'montserrat' | 'lora' | 'playfair';
+
+// A typeface bundled with the app; services/cardFonts.ts registers its files
+export interface CardFont {
+  id: CardFontId;
+  name: string;
+  family: string; // CSS font-family the files are registered under
+  fallback: 'sans-serif' | 'serif';
+  weights: [number, number]; // Lightest and heaviest weight the files cover
+}
+
+// A TTF, OTF, WOFF or WOFF2 file the user added to a project
+export interface UploadedFont {
+  src: string; // Asset ref of the font file
+  name: string; // Shown in the font pickers, from the file name
+}
+
+export interface TextStyle {
+  font: string; // A CardFontId, or the src of an UploadedFont
+  weight: number; // 100 to 900
+  letterSpacing: number; // In em
+}
+
+export type LayerShape = 'highlight' | 'rectangle' | 'ellipse';
+
+export type ArrowStyle = 'straight' | 'curved';
+
+// Free-form extras drawn over the card; a slide's layers are listed bottom to top
+export type CardLayer = {
+  id: string;
+  position: Position; // Top-left corner of the unscaled layer, in card pixels from the card's top-left
+  scale: number; // Scale and rotation apply around the layer's center
+  rotation: number; // Degrees, clockwise
+  opacity: number; // 0 to 1
+  locked: boolean; // Locked layers ignore the pointer, so they can't be moved on the card
+  hidden: boolean; // Hidden layers are left out of the preview and exports
+} & (
+  | { type: 'text'; text: string; textStyle: 'header' | 'body'; fontSize: number; color: string | null; background: string | null } // Takes the slide's header or body TextStyle; null color follows the card's body color
+  | { type: 'sticker'; emoji: string }
+  | { type: 'arrow'; style: ArrowStyle; color: string | null } // Points right before rotation; null follows the accent color
+  | { type: 'shape'; shape: LayerShape; color: string; width: number; height: number }
+  | { type: 'swipe'; text: string; color: string | null } // "Swipe →" pill; null follows the accent color
+);
+
+export type CardLayerType = CardLayer['type'];
+
+// 'auto' picks dark or light text from the background's contrast
+export type TextTone = 'auto' | 'dark' | 'light';
+
 export interface TweetData {
   displayName: string;
   handle: string;
   content: string;
   avatarUrl: string;
+
+  // Author Metadata (empty strings hide the line)
+  badge: BadgeType; // gold = business, grey = government
+  badgeIconUrl: string | null; // Used when badge is 'custom'
+  timestamp: string; // e.g. "2h", shown as "@handle · 2h"
+  replyingTo: string; // e.g. "@x", shown as "Replying to @x"
+  isPromoted: boolean;
+
+  // Layout
+  layout: CardLayout;
+  quotedTweet: EmbeddedTweet; // Used when layout is 'quote'
+  threadReplies: EmbeddedTweet[]; // Used when layout is 'thread'; 1 to MAX_THREAD_REPLIES entries
   
   // Design Properties
-  background: string; // CSS background property (e.g., color or gradient)
+  background: CardBackground;
   headerPosition: Position;
   headerScale: number;
   contentPosition: Position;
   contentScale: number;
+  autoFitText: boolean; // Size the text to the space left on the card instead of using contentScale
+
+  // Text Colors (null follows the tone; services/cardTheme.ts resolves them)
+  textTone: TextTone;
+  nameColor: string | null;
+  handleColor: string | null; // Also used for the other secondary text: timestamp, labels, footer
+  bodyColor: string | null;
+  accentColor: string | null; // Mentions, hashtags, links and "Replying to" handles
 
-  // New Media Properties
-  tweetImage?: string | null;
+  // Typography
+  headerFont: TextStyle; // Display name; the handle and labels take its font only
+  bodyFont: TextStyle; // Tweet text, quoted tweets, replies and footer
+
+  // Media (the whole grid drags and scales as one element)
+  tweetImages: TweetMedia[];
   tweetImagePosition: Position;
   tweetImageScale: number;
+
+  // Engagement Footer (date line and action row)
+  showFooter: boolean;
+  postedAt: string; // Local date and time, "YYYY-MM-DDTHH:mm"
+  source: string; // e.g. "Twitter for iPhone"; empty hides it
+  engagement: EngagementStats;
+  footerPosition: Position;
+  footerScale: number;
+  locale: TweetLanguage; // Language of the card's labels, dates and compact numbers
+
+  // Free-form layers over the card, bottom to top
+  layers: CardLayer[];
+}
+
+export type CanvasFormatId = '1:1' | '4:5' | '3:4' | '9:16' | '16:9';
+
+export interface CanvasFormat {
+  id: CanvasFormatId;
+  name: string;
+  width: number;
+  height: number;
+  paddingX: number; // Horizontal inner padding of the card
+  paddingY: number; // Vertical inner padding of the card
+}
+
+export interface CarouselState {
+  slides: TweetData[];
+  activeSlideIndex: number;
+  canvasFormat: CanvasFormatId; // Shared by every slide in the project
+  fonts: UploadedFont[]; // Uploaded fonts the slides can use
+}
+
+// A starting point from the template gallery: built in (constants.ts) or saved by the user (IndexedDB)
+export interface CardTemplate {
+  id: string;
+  name: string;
+  description: string;
+  kind: 'card' | 'carousel'; // A card replaces the active slide; a carousel replaces every slide
+  canvasFormat: CanvasFormatId | null; // null keeps the project's format
+  slides: TweetData[];
+  repeatSlideIndex: number | null; // Slide repeated to reach the length picked in the gallery; "{n}" in its text becomes its number
+  fonts: UploadedFont[]; // Uploaded fonts the slides use
+}
+
+export interface ProjectMeta {
+  id: string;
+  name: string;
+  createdAt: number; // epoch ms
+  updatedAt: number; // epoch ms
+  slideCount: number;
+  thumbnail: Blob | null; // JPEG preview of the first slide
+}
+
+export type TweetTone = 'viral' | 'professional' | 'humorous';
+
+export type TweetLanguage = 'pt-BR' | 'en';
+
+export interface GeneratedSlide {
+  role: 'hook' | 'body' | 'cta';
+  text: string;
+}
+
+export type AiProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface AiSettings {
+  provider: AiProviderId;
+  geminiTextModel: string;
+  geminiImageModel: string;
+  openAiBaseUrl: string; // Any OpenAI-compatible endpoint, e.g. https://api.openai.com/v1
+  openAiApiKey: string;
+  openAiTextModel: string;
+  openAiImageModel: string;
+  timeoutSeconds: number; // Per attempt; 0 waits indefinitely
+  maxRetries: number; // Extra attempts after a rate limit or server error
+}
+
+// Minimal JSON schema understood by every provider for structured text output
+export type AiSchema =
+  | { type: 'string'; enum?: string[] }
+  | { type: 'array'; items: AiSchema; minItems?: number; maxItems?: number }
+  | { type: 'object'; properties: Record<string, AiSchema>; required?: string[] };
+
+export interface TextGenerationRequest {
+  prompt: string;
+  schema?: AiSchema; // When set, the provider returns JSON matching the schema
+}
+
+// Providers should pass `signal` on to their network calls and throw AiError when they can tell what failed
+export interface AiProvider {
+  editImage: (base64Image: string, prompt: string, signal: AbortSignal) => Promise<string>; // Returns a data URL
+  generateImage: (prompt: string, signal: AbortSignal) => Promise<string>; // Returns a data URL
+  generateText: (request: TextGenerationRequest, signal: AbortSignal) => Promise<string>;
 }
 
 export interface GeminiError {
@@ -35,6 +251,30 @@ export interface Guideline {
 export interface BackgroundOption {
   id: string;
   name: string;
-  style: string; // CSS background value
-  previewClass: string; // Tailwind class for the preview circle
+  background: CardBackground;
+}
+
+export type ExportFormat = 'jpeg' | 'png' | 'webp';
+
+export interface ExportSettings {
+  format: ExportFormat;
+  quality: number; // 0-1, ignored by PNG
+  pixelRatio: 1 | 2 | 3;
+  transparentBackground: boolean; // Skips the card background (PNG/WebP only)
+}
+
+// A client account's look: applied to slides from the brand kit panel and shared as JSON
+export interface BrandKit {
+  id: string;
+  name: string;
+  displayName: string;
+  handle: string;
+  avatarUrl: string;
+  badge: BadgeType;
+  badgeIconUrl: string | null;
+  backgrounds: CardBackground[]; // Preferred backgrounds; the first is applied with the kit
+  accentColor: string | null; // null keeps the automatic accent
+  headerFont: TextStyle;
+  bodyFont: TextStyle;
+  fonts: UploadedFont[]; // Uploaded fonts the kit's text styles use
 }